@@ -0,0 +1,36 @@
+import { test, expect, describe } from "bun:test";
+import { mediaTypeOf, attachmentKind, isInlineImage } from "./attachments";
+
+describe("mediaTypeOf", () => {
+  test("reads the filename's extension, in any case", () => {
+    expect(mediaTypeOf("Screenshot 2024.PNG")).toBe("image/png");
+    expect(mediaTypeOf("report.final.pdf")).toBe("application/pdf");
+  });
+
+  test("prefers the extension Bear normalized", () => {
+    expect(mediaTypeOf("photo", "jpeg")).toBe("image/jpeg");
+    expect(mediaTypeOf("photo.bin", "heic")).toBe("image/heic");
+  });
+
+  test("falls back to a generic binary type for anything unknown", () => {
+    expect(mediaTypeOf("archive.xyz")).toBe("application/octet-stream");
+    expect(mediaTypeOf("README")).toBe("application/octet-stream");
+    expect(mediaTypeOf(".hidden")).toBe("application/octet-stream");
+  });
+});
+
+describe("attachmentKind", () => {
+  test("files images apart from everything else", () => {
+    expect(attachmentKind("image/svg+xml")).toBe("image");
+    expect(attachmentKind("application/pdf")).toBe("file");
+  });
+});
+
+describe("isInlineImage", () => {
+  test("allows only the image formats clients render", () => {
+    expect(["image/png", "image/jpeg", "image/gif", "image/webp"].every(isInlineImage)).toBe(true);
+    expect(isInlineImage("image/heic")).toBe(false);
+    expect(isInlineImage("image/svg+xml")).toBe(false);
+    expect(isInlineImage("application/pdf")).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+// What kind of file an attachment is. Pure functions, no SQL and no disk.
+//
+// Bear records a file's name and, in newer databases, a normalized
+// extension, but no media type. The type is inferred from the extension:
+// enough to tell an image (filed under "Note Images") from anything else
+// (under "Note Files"), and which images can go out as image content.
+
+import type { AttachmentKind } from "./database.js";
+
+// The largest attachment bear_get_attachment returns. Tool results travel
+// base64-encoded, a third larger again, and an MCP client holds the whole
+// result in memory and often in the model's context; this is a backstop
+// against pulling a video into a conversation, not a format limit.
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+const MEDIA_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  heic: "image/heic",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+  zip: "application/zip",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+const FALLBACK_MEDIA_TYPE = "application/octet-stream";
+
+// The extension Bear normalized when there is one, else the filename's.
+export const mediaTypeOf = (filename: string, extension?: string | null): string => {
+  const dot = filename.lastIndexOf(".");
+  const ext = (extension || (dot > 0 ? filename.slice(dot + 1) : "")).toLowerCase();
+  return MEDIA_TYPES[ext] ?? FALLBACK_MEDIA_TYPE;
+};
+
+export const attachmentKind = (mediaType: string): AttachmentKind =>
+  mediaType.startsWith("image/") ? "image" : "file";
+
+// The image formats MCP clients render as image content. Clients and model
+// APIs reject other image types there, so a HEIC photo or a TIFF scan goes
+// out as a binary resource like any other file.
+const INLINE_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+export const isInlineImage = (mediaType: string): boolean => INLINE_IMAGE_TYPES.has(mediaType);
@@ -2,7 +2,7 @@ import { Database } from "bun:sqlite";
 import { CORE_DATA_EPOCH_OFFSET } from "./notes-query";
 
 // Test-only helpers for building an in-memory stand-in for Bear's database.
-// Imported by the read/search tests; not part of the server bundle.
+// Imported by the tests; not part of the server bundle.
 
 // 2021-01-01 00:00:00 UTC expressed as a Core Data timestamp (unix 1609459200
 // minus the epoch offset, imported so the fixture cannot drift from the
@@ -45,9 +45,26 @@ export const createBearTables = (db: Database, schema: FixtureSchema = {}): void
     ZCREATIONDATE REAL,
     ZMODIFICATIONDATE REAL,
     ZTRASHED INTEGER,
-    ZARCHIVED INTEGER
+    ZARCHIVED INTEGER,
+    ZTRASHEDDATE REAL,
+    ZPINNED INTEGER,
+    ZTODOCOMPLETED INTEGER,
+    ZTODOINCOMPLETED INTEGER
   )`);
   db.run(`CREATE TABLE ZSFNOTETAG (Z_PK INTEGER PRIMARY KEY, ZTITLE TEXT)`);
+  db.run(`CREATE TABLE ZSFNOTEBACKLINK (Z_PK INTEGER PRIMARY KEY, ZLINKEDBY INTEGER, ZLINKINGTO INTEGER)`);
+  db.run(`CREATE TABLE ZSFNOTEFILE (
+    Z_PK INTEGER PRIMARY KEY,
+    ZNOTE INTEGER,
+    ZUNIQUEIDENTIFIER TEXT,
+    ZFILENAME TEXT,
+    ZNORMALIZEDFILEEXTENSION TEXT,
+    ZFILESIZE INTEGER,
+    ZWIDTH INTEGER,
+    ZHEIGHT INTEGER,
+    ZUNUSED INTEGER,
+    ZPERMANENTLYDELETED INTEGER
+  )`);
 
   if (!schema.omitTagJoinTable) {
     // Core Data names a many-to-many table after the side with the lower
@@ -57,3 +74,54 @@ export const createBearTables = (db: Database, schema: FixtureSchema = {}): void
     db.run(`CREATE TABLE ${table} (Z_${noteEntity}NOTES INTEGER, Z_${tagEntity}TAGS INTEGER)`);
   }
 };
+
+// One ZSFNOTE row. Timestamps are raw Core Data seconds; a field left out
+// takes the default below, and an explicit null writes NULL.
+export interface FixtureNote {
+  pk: number;
+  id: string | null;
+  title: string | null;
+  text?: string | null;
+  createdAt?: number | null;
+  modifiedAt?: number | null;
+  trashed?: number | null;
+  archived?: number | null;
+  trashedAt?: number | null;
+  pinned?: number | null;
+  todoCompleted?: number | null;
+  todoIncompleted?: number | null;
+}
+
+const NOTE_COLUMNS: Record<keyof FixtureNote, string> = {
+  pk: "Z_PK",
+  id: "ZUNIQUEIDENTIFIER",
+  title: "ZTITLE",
+  text: "ZTEXT",
+  createdAt: "ZCREATIONDATE",
+  modifiedAt: "ZMODIFICATIONDATE",
+  trashed: "ZTRASHED",
+  archived: "ZARCHIVED",
+  trashedAt: "ZTRASHEDDATE",
+  pinned: "ZPINNED",
+  todoCompleted: "ZTODOCOMPLETED",
+  todoIncompleted: "ZTODOINCOMPLETED",
+};
+
+// A live note saved at the start of 2021, unless the test says otherwise.
+const NOTE_DEFAULTS: Partial<FixtureNote> = {
+  text: "body",
+  createdAt: CORE_DATA_2021,
+  modifiedAt: CORE_DATA_2021,
+  trashed: 0,
+  archived: 0,
+};
+
+export const insertNote = (db: Database, overrides: FixtureNote): void => {
+  const note: FixtureNote = { ...NOTE_DEFAULTS, ...overrides };
+  const fields = (Object.keys(note) as Array<keyof FixtureNote>).filter(field => note[field] !== undefined);
+  db.run(
+    `INSERT INTO ZSFNOTE (${fields.map(field => NOTE_COLUMNS[field]).join(", ")})
+     VALUES (${fields.map(() => "?").join(", ")})`,
+    fields.map(field => note[field] ?? null)
+  );
+};
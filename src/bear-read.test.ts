@@ -1,24 +1,33 @@
-import { test, expect, describe, beforeAll } from "bun:test";
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
 import { Database } from "bun:sqlite";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import {
   searchNotes,
   getNoteContent,
   listNotesByTag,
   getAllTags,
+  getTagTree,
   listArchivedNotes,
+  listTrashedNotes,
+  listTodos,
+  getNoteLinks,
+  checkLinks,
+  getAttachment,
+  getNoteOutline,
+  getNoteSection,
 } from "./bear";
-import { createBearTables, CORE_DATA_2021, READABLE_2021 } from "./bear-fixture";
+import { MAX_ATTACHMENT_BYTES } from "./attachments";
+import { createBearTables, insertNote, CORE_DATA_2021, READABLE_2021 } from "./bear-fixture";
 
 const buildFixture = (): Database => {
   const db = new Database(":memory:");
   createBearTables(db);
 
-  db.run(
-    `INSERT INTO ZSFNOTE (Z_PK, ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT, ZCREATIONDATE, ZMODIFICATIONDATE, ZTRASHED, ZARCHIVED) VALUES
-      (1, 'NOTE-A', 'Alpha', 'alpha body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-      (2, 'NOTE-B', 'Beta trashed', 'beta body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 1, 0),
-      (3, 'NOTE-C', 'Gamma archived', 'gamma body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 1)`
-  );
+  insertNote(db, { pk: 1, id: "NOTE-A", title: "Alpha", text: "alpha body" });
+  insertNote(db, { pk: 2, id: "NOTE-B", title: "Beta trashed", text: "beta body", trashed: 1 });
+  insertNote(db, { pk: 3, id: "NOTE-C", title: "Gamma archived", text: "gamma body", archived: 1 });
   db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'work')`);
   db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 10)`);
 
@@ -95,6 +104,19 @@ describe("getNoteContent", () => {
   test("returns null for an unknown id", () => {
     expect(getNoteContent("MISSING", db)).toBeNull();
   });
+
+  test("says whether a note is pinned, and omits the flag where the database cannot say", () => {
+    const fixture = buildFixture();
+    fixture.run("UPDATE ZSFNOTE SET ZPINNED = 1 WHERE Z_PK = 1");
+    expect(getNoteContent("NOTE-A", fixture)?.isPinned).toBe(true);
+    expect(getNoteContent("NOTE-B", fixture)?.isPinned).toBe(false);
+
+    // A fresh handle: the column check is cached per database.
+    const older = buildFixture();
+    older.run("ALTER TABLE ZSFNOTE DROP COLUMN ZPINNED");
+    const note = getNoteContent("NOTE-A", older);
+    expect(note && "isPinned" in note).toBe(false);
+  });
 });
 
 describe("listNotesByTag", () => {
@@ -112,11 +134,8 @@ describe("getAllTags", () => {
   test("groups spellings that differ only by case, matching how tags are looked up", () => {
     const fixture = new Database(":memory:");
     createBearTables(fixture);
-    fixture.run(
-      `INSERT INTO ZSFNOTE (Z_PK, ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT, ZCREATIONDATE, ZMODIFICATIONDATE, ZTRASHED, ZARCHIVED) VALUES
-        (1, 'T-1', 'One', 'body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-        (2, 'T-2', 'Two', 'body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0)`
-    );
+    insertNote(fixture, { pk: 1, id: "T-1", title: "One" });
+    insertNote(fixture, { pk: 2, id: "T-2", title: "Two" });
     fixture.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'Möte'), (11, 'möte')`);
     fixture.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 10), (2, 11)`);
 
@@ -129,10 +148,7 @@ describe("getAllTags", () => {
   test("counts a note carrying both spellings once", () => {
     const fixture = new Database(":memory:");
     createBearTables(fixture);
-    fixture.run(
-      `INSERT INTO ZSFNOTE (Z_PK, ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT, ZCREATIONDATE, ZMODIFICATIONDATE, ZTRASHED, ZARCHIVED) VALUES
-        (1, 'T-1', 'One', 'body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0)`
-    );
+    insertNote(fixture, { pk: 1, id: "T-1", title: "One" });
     fixture.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'Work'), (11, 'work')`);
     fixture.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 10), (1, 11)`);
 
@@ -142,10 +158,7 @@ describe("getAllTags", () => {
   test("skips a tag row with a NULL title rather than counting it", () => {
     const fixture = new Database(":memory:");
     createBearTables(fixture);
-    fixture.run(
-      `INSERT INTO ZSFNOTE (Z_PK, ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT, ZCREATIONDATE, ZMODIFICATIONDATE, ZTRASHED, ZARCHIVED) VALUES
-        (1, 'T-1', 'One', 'body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0)`
-    );
+    insertNote(fixture, { pk: 1, id: "T-1", title: "One" });
     fixture.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, NULL), (11, 'work')`);
     fixture.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 10), (1, 11)`);
 
@@ -155,6 +168,71 @@ describe("getAllTags", () => {
   });
 });
 
+describe("getTagTree", () => {
+  // work has two nested levels; note 1 carries two descendants of work, note 4
+  // carries only a child whose parent no note carries directly, and note 5 is
+  // trashed. "workshop" shares a prefix with "work" but is not under it.
+  const treeDb = (): Database => {
+    const fixture = new Database(":memory:");
+    createBearTables(fixture);
+    insertNote(fixture, { pk: 1, id: "T-1", title: "One" });
+    insertNote(fixture, { pk: 2, id: "T-2", title: "Two" });
+    insertNote(fixture, { pk: 3, id: "T-3", title: "Three" });
+    insertNote(fixture, { pk: 4, id: "T-4", title: "Four" });
+    insertNote(fixture, { pk: 5, id: "T-5", title: "Five", trashed: 1 });
+    fixture.run(
+      `INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES
+        (10, 'work'), (11, 'work/Clients'), (12, 'work/clients/acme'), (13, 'work/admin'),
+        (14, 'workshop'), (15, 'home/garden')`
+    );
+    fixture.run(
+      `INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES
+        (1, 11), (1, 12), (2, 10), (3, 13), (3, 14), (4, 15), (5, 12)`
+    );
+    return fixture;
+  };
+
+  test("nests by /, with direct and rolled-up counts that count each note once", () => {
+    expect(getTagTree(treeDb())).toEqual([
+      {
+        name: "home",
+        path: "home",
+        noteCount: 0,
+        totalNoteCount: 1,
+        children: [{ name: "garden", path: "home/garden", noteCount: 1, totalNoteCount: 1, children: [] }],
+      },
+      {
+        name: "work",
+        path: "work",
+        noteCount: 1,
+        totalNoteCount: 3,
+        children: [
+          { name: "admin", path: "work/admin", noteCount: 1, totalNoteCount: 1, children: [] },
+          {
+            name: "Clients",
+            path: "work/Clients",
+            noteCount: 1,
+            totalNoteCount: 1,
+            children: [{ name: "acme", path: "work/clients/acme", noteCount: 1, totalNoteCount: 1, children: [] }],
+          },
+        ],
+      },
+      { name: "workshop", path: "workshop", noteCount: 1, totalNoteCount: 1, children: [] },
+    ]);
+  });
+
+  test("the flat list still lists each tag on its own", () => {
+    expect(getAllTags(treeDb()).map(tag => tag.name)).toEqual([
+      "home/garden",
+      "work",
+      "work/admin",
+      "work/Clients",
+      "work/clients/acme",
+      "workshop",
+    ]);
+  });
+});
+
 describe("listArchivedNotes", () => {
   test("returns archived but not trashed notes, flagged as archived", () => {
     const page = listArchivedNotes({}, db);
@@ -163,17 +241,54 @@ describe("listArchivedNotes", () => {
   });
 });
 
+describe("listTrashedNotes", () => {
+  const trashDb = (): Database => {
+    const fixture = new Database(":memory:");
+    createBearTables(fixture);
+    insertNote(fixture, { pk: 1, id: "X-LIVE", title: "Meeting notes", text: "agenda", modifiedAt: CORE_DATA_2021 + 1 });
+    insertNote(fixture, { pk: 2, id: "X-TRASHED", title: "Meeting minutes", text: "decisions", modifiedAt: CORE_DATA_2021 + 2, trashed: 1, trashedAt: CORE_DATA_2021 + 3600 });
+    insertNote(fixture, { pk: 3, id: "X-BOTH", title: "Old plan", text: "meeting agenda", modifiedAt: CORE_DATA_2021 + 3, trashed: 1, archived: 1 });
+    insertNote(fixture, { pk: 4, id: "X-ARCHIVED", title: "Archived", text: "meeting", modifiedAt: CORE_DATA_2021 + 4, archived: 1 });
+    return fixture;
+  };
+
+  test("lists trashed notes, archived or not, flagged and with the trash date when recorded", () => {
+    const page = listTrashedNotes({}, trashDb());
+    expect(ids(page)).toEqual(["X-BOTH", "X-TRASHED"]);
+    expect(page.notes.every(note => note.isTrashed)).toBe(true);
+    expect(page.notes[1].trashedAt).toBe("2021-01-01T01:00:00Z");
+    expect("trashedAt" in page.notes[0]).toBe(false);
+  });
+
+  test("filters by term across title and body, or by title alone", () => {
+    const fixture = trashDb();
+    expect(ids(listTrashedNotes({ term: "MEETING" }, fixture))).toEqual(["X-BOTH", "X-TRASHED"]);
+    expect(ids(listTrashedNotes({ title: "meeting" }, fixture))).toEqual(["X-TRASHED"]);
+  });
+
+  test("pages like the other lists", () => {
+    const page = listTrashedNotes({ limit: 1 }, trashDb());
+    expect(ids(page)).toEqual(["X-BOTH"]);
+    expect(page.hasMore).toBe(true);
+  });
+
+  test("works on a database that predates ZTRASHEDDATE", () => {
+    const fixture = trashDb();
+    fixture.run("ALTER TABLE ZSFNOTE DROP COLUMN ZTRASHEDDATE");
+    const page = listTrashedNotes({}, fixture);
+    expect(ids(page)).toEqual(["X-BOTH", "X-TRASHED"]);
+    expect(page.notes.some(note => "trashedAt" in note)).toBe(false);
+  });
+});
+
 describe("NULL columns", () => {
   const nullDb = (): Database => {
     const fixture = new Database(":memory:");
     createBearTables(fixture);
-    fixture.run(
-      `INSERT INTO ZSFNOTE (Z_PK, ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT, ZCREATIONDATE, ZMODIFICATIONDATE, ZTRASHED, ZARCHIVED) VALUES
-        (1, 'NOTE-NULL', 'Empty', NULL, ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-        (2, 'NOTE-NULLTITLE', NULL, 'body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-        (3, 'NOTE-NULLFLAGS', 'Unset flags', 'body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, NULL, NULL),
-        (4, NULL, 'No id', 'body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0)`
-    );
+    insertNote(fixture, { pk: 1, id: "NOTE-NULL", title: "Empty", text: null });
+    insertNote(fixture, { pk: 2, id: "NOTE-NULLTITLE", title: null });
+    insertNote(fixture, { pk: 3, id: "NOTE-NULLFLAGS", title: "Unset flags", trashed: null, archived: null });
+    insertNote(fixture, { pk: 4, id: null, title: "No id" });
     fixture.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'work')`);
     fixture.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (3, 10)`);
     return fixture;
@@ -208,3 +323,289 @@ describe("NULL columns", () => {
     expect(ids(searchNotes({}, nullDb()))).not.toContain("");
   });
 });
+
+describe("listTodos", () => {
+  const todoDb = (): Database => {
+    const fixture = new Database(":memory:");
+    createBearTables(fixture);
+    insertNote(fixture, { pk: 1, id: "T-STANDUP", title: "Standup", text: "# Standup\n## Today\n- [ ] ship release\n- [x] write notes", modifiedAt: CORE_DATA_2021 + 2, todoIncompleted: 1, todoCompleted: 1 });
+    insertNote(fixture, { pk: 2, id: "T-HOME", title: "Home", text: "# Home\n- [ ] Call plumber\n- [ ] ship parcel", modifiedAt: CORE_DATA_2021 + 1, todoIncompleted: 2, todoCompleted: 0 });
+    insertNote(fixture, { pk: 3, id: "T-UNKNOWN", title: "Counts unset", text: "# Counts unset\n- [ ] ship anyway", todoIncompleted: null, todoCompleted: null });
+    insertNote(fixture, { pk: 4, id: "T-STALE", title: "Stale", text: "# Stale\n- [ ] hidden by the counter", modifiedAt: CORE_DATA_2021 + 3, todoIncompleted: 0, todoCompleted: 0 });
+    insertNote(fixture, { pk: 5, id: "T-TRASHED", title: "Trashed", text: "# Trashed\n- [ ] gone", modifiedAt: CORE_DATA_2021 + 4, trashed: 1, todoIncompleted: 1, todoCompleted: 0 });
+    fixture.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'work')`);
+    fixture.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 10)`);
+    return fixture;
+  };
+  const texts = (page: { todos: { text: string }[] }) => page.todos.map(todo => todo.text);
+
+  test("lists open items from live notes, newest note first, with where each sits", () => {
+    const page = listTodos({}, todoDb());
+    expect(texts(page)).toEqual(["ship release", "Call plumber", "ship parcel", "ship anyway"]);
+    expect(page.todos[0]).toEqual({
+      noteId: "T-STANDUP",
+      noteTitle: "Standup",
+      noteModifiedAt: "2021-01-01T00:00:02Z",
+      line: 3,
+      text: "ship release",
+      done: false,
+      heading: "Today",
+    });
+  });
+
+  test("Bear's counters skip a note in SQL, and an unset counter does not", () => {
+    // T-STALE's body has an open item its counter denies: the prefilter ran.
+    expect(listTodos({}, todoDb()).todos.some(todo => todo.noteId === "T-STALE")).toBe(false);
+    expect(listTodos({ term: "anyway" }, todoDb()).todos.map(todo => todo.noteId)).toEqual(["T-UNKNOWN"]);
+  });
+
+  test("state picks done items, or every item", () => {
+    const fixture = todoDb();
+    expect(texts(listTodos({ state: "done" }, fixture))).toEqual(["write notes"]);
+    expect(listTodos({ state: "all" }, fixture).count).toBe(6);
+  });
+
+  test("tag and term narrow by the note's tag and the item's text", () => {
+    const fixture = todoDb();
+    expect(texts(listTodos({ tag: "#WORK", state: "all" }, fixture))).toEqual(["ship release", "write notes"]);
+    expect(texts(listTodos({ term: "SHIP" }, fixture))).toEqual(["ship release", "ship parcel", "ship anyway"]);
+    expect(listTodos({ tag: "nosuchtag" }, fixture).count).toBe(0);
+  });
+
+  test("pages over items, not notes", () => {
+    const page = listTodos({ limit: 2, offset: 1 }, todoDb());
+    expect(texts(page)).toEqual(["Call plumber", "ship parcel"]);
+    expect(page.hasMore).toBe(true);
+  });
+
+  test("works on a database without the todo counters", () => {
+    const fixture = todoDb();
+    fixture.run("ALTER TABLE ZSFNOTE DROP COLUMN ZTODOINCOMPLETED");
+    fixture.run("ALTER TABLE ZSFNOTE DROP COLUMN ZTODOCOMPLETED");
+    expect(texts(listTodos({ term: "counter" }, fixture))).toEqual(["hidden by the counter"]);
+  });
+});
+
+describe("getNoteLinks", () => {
+  const linkDb = (): Database => {
+    const fixture = new Database(":memory:");
+    createBearTables(fixture);
+    insertNote(fixture, { pk: 1, id: "L-HUB", title: "Hub", text: "# Hub\nSee [[roadmap/Risks]], [[Möte]] and [[Nowhere]].", modifiedAt: CORE_DATA_2021 + 1 });
+    insertNote(fixture, { pk: 2, id: "L-ROADMAP", title: "Roadmap", text: "# Roadmap\n## Risks\nBack to [[Hub]]", modifiedAt: CORE_DATA_2021 + 2 });
+    insertNote(fixture, { pk: 3, id: "L-MOTE-1", title: "Möte", text: "# Möte", modifiedAt: CORE_DATA_2021 + 3 });
+    insertNote(fixture, { pk: 4, id: "L-MOTE-2", title: "MÖTE", text: "# MÖTE\n  Linked from [[hub]] too  ", modifiedAt: CORE_DATA_2021 + 4 });
+    insertNote(fixture, { pk: 5, id: "L-TRASHED", title: "Trashed", text: "# Trashed\n[[Hub]]", modifiedAt: CORE_DATA_2021 + 5, trashed: 1 });
+    // Bear's index, including a stale row for a link edited out of L-MOTE-1.
+    fixture.run(`INSERT INTO ZSFNOTEBACKLINK (ZLINKEDBY, ZLINKINGTO) VALUES (1, 2), (2, 1), (4, 1), (3, 1), (5, 1)`);
+    return fixture;
+  };
+
+  test("resolves outgoing links as resolved, ambiguous or missing, with folding", () => {
+    const links = getNoteLinks("L-HUB", linkDb());
+    expect(links?.outgoing).toEqual([
+      { line: 2, target: "roadmap/Risks", title: "roadmap", heading: "Risks", status: "resolved", noteIds: ["L-ROADMAP"] },
+      { line: 2, target: "Möte", title: "Möte", status: "ambiguous", noteIds: ["L-MOTE-1", "L-MOTE-2"] },
+      { line: 2, target: "Nowhere", title: "Nowhere", status: "missing", noteIds: [] },
+    ]);
+  });
+
+  test("lists live backlinks with the linking line, newest source first, checked against the body", () => {
+    expect(getNoteLinks("L-HUB", linkDb())?.backlinks).toEqual([
+      { noteId: "L-MOTE-2", title: "MÖTE", line: 2, context: "Linked from [[hub]] too" },
+      { noteId: "L-ROADMAP", title: "Roadmap", line: 3, context: "Back to [[Hub]]" },
+    ]);
+  });
+
+  test("parses every body instead on a database without Bear's link index", () => {
+    const fixture = linkDb();
+    fixture.run("DROP TABLE ZSFNOTEBACKLINK");
+    expect(getNoteLinks("L-HUB", fixture)?.backlinks.map(link => link.noteId)).toEqual(["L-MOTE-2", "L-ROADMAP"]);
+  });
+
+  test("finds the links to a trashed note too, and returns null for an unknown id", () => {
+    const fixture = linkDb();
+    fixture.run(`UPDATE ZSFNOTE SET ZTEXT = '# Hub\n[[Trashed]]' WHERE Z_PK = 1`);
+    fixture.run(`INSERT INTO ZSFNOTEBACKLINK (ZLINKEDBY, ZLINKINGTO) VALUES (1, 5)`);
+    expect(getNoteLinks("L-TRASHED", fixture)?.backlinks.map(link => link.noteId)).toEqual(["L-HUB"]);
+    expect(getNoteLinks("NO-SUCH", fixture)).toBeNull();
+  });
+});
+
+describe("checkLinks", () => {
+  const rotDb = (): Database => {
+    const fixture = new Database(":memory:");
+    createBearTables(fixture);
+    insertNote(fixture, { pk: 1, id: "C-INDEX", title: "Index", text: "# Index\n[[Roadmap]] [[Renamed away]]\n\n[[Plan]]\n[[Old]] [[Binned]]", modifiedAt: CORE_DATA_2021 + 1 });
+    insertNote(fixture, { pk: 2, id: "C-ROADMAP", title: "Roadmap", text: "# Roadmap\n[[Index/Top]] is fine", modifiedAt: CORE_DATA_2021 + 2 });
+    insertNote(fixture, { pk: 3, id: "C-PLAN-1", title: "Plan", text: "# Plan", modifiedAt: CORE_DATA_2021 + 3 });
+    insertNote(fixture, { pk: 4, id: "C-PLAN-2", title: "plan", text: "# plan\nsee [[Ghost]]", modifiedAt: CORE_DATA_2021 + 4 });
+    insertNote(fixture, { pk: 5, id: "C-OLD", title: "Old", text: "# Old", modifiedAt: CORE_DATA_2021 + 5, archived: 1 });
+    insertNote(fixture, { pk: 6, id: "C-BINNED", title: "Binned", text: "# Binned\n[[Nothing]]", modifiedAt: CORE_DATA_2021 + 6, trashed: 1 });
+    fixture.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'work')`);
+    fixture.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (4, 10)`);
+    return fixture;
+  };
+
+  test("reports missing, ambiguous, archived and trashed targets per live source note", () => {
+    const page = checkLinks({}, rotDb());
+    expect(page.notes).toEqual([
+      {
+        noteId: "C-PLAN-2",
+        title: "plan",
+        links: [{ line: 2, target: "Ghost", title: "Ghost", problem: "missing", noteIds: [] }],
+      },
+      {
+        noteId: "C-INDEX",
+        title: "Index",
+        links: [
+          { line: 2, target: "Renamed away", title: "Renamed away", problem: "missing", noteIds: [] },
+          { line: 4, target: "Plan", title: "Plan", problem: "ambiguous", noteIds: ["C-PLAN-1", "C-PLAN-2"] },
+          { line: 5, target: "Old", title: "Old", problem: "archived", noteIds: ["C-OLD"] },
+          { line: 5, target: "Binned", title: "Binned", problem: "trashed", noteIds: ["C-BINNED"] },
+        ],
+      },
+    ]);
+  });
+
+  test("scopes to a tag and pages over source notes", () => {
+    const fixture = rotDb();
+    expect(checkLinks({ tag: "work" }, fixture).notes.map(note => note.noteId)).toEqual(["C-PLAN-2"]);
+    const page = checkLinks({ limit: 1, offset: 1 }, fixture);
+    expect(page.notes.map(note => note.noteId)).toEqual(["C-INDEX"]);
+    expect(page.hasMore).toBe(false);
+  });
+});
+
+describe("outlines and sections", () => {
+  const outlineDb = (): Database => {
+    const fixture = buildFixture();
+    fixture.run("UPDATE ZSFNOTE SET ZTEXT = '# Alpha\n## Plan\nsteps\n## Risks\nnone' WHERE Z_PK = 1");
+    return fixture;
+  };
+
+  test("getNoteOutline returns the note's heading tree and size", () => {
+    const outline = getNoteOutline("NOTE-A", outlineDb());
+    expect(outline?.title).toBe("Alpha");
+    expect(outline?.chars).toBe(35);
+    expect(outline?.headings.map(heading => [heading.text, heading.startLine, heading.endLine])).toEqual([
+      ["Plan", 2, 3],
+      ["Risks", 4, 5],
+    ]);
+  });
+
+  test("getNoteSection returns one section, and null for an unknown note", () => {
+    const fixture = outlineDb();
+    expect(getNoteSection("NOTE-A", "plan", fixture)).toMatchObject({ noteId: "NOTE-A", content: "## Plan\nsteps" });
+    expect(() => getNoteSection("NOTE-A", "Budget", fixture)).toThrow(/No heading "Budget"/);
+    expect(getNoteSection("MISSING", "plan", fixture)).toBeNull();
+    expect(getNoteOutline("MISSING", fixture)).toBeNull();
+  });
+});
+
+describe("attachments", () => {
+  // Attachments are found next to the database file, so these tests need one
+  // on disk, laid out the way Bear's container is.
+  const dir = mkdtempSync(join(tmpdir(), "bear-attachments-"));
+  const files = join(dir, "Local Files");
+
+  let opened = 0;
+
+  // A new database file each time, beside the same attachments.
+  const fileDb = (): Database => {
+    opened += 1;
+    const fixture = new Database(join(dir, `database-${opened}.sqlite`));
+    createBearTables(fixture);
+    insertNote(fixture, { pk: 1, id: "NOTE-A", title: "Alpha", text: "alpha body" });
+    fixture.run(
+      `INSERT INTO ZSFNOTEFILE (Z_PK, ZNOTE, ZUNIQUEIDENTIFIER, ZFILENAME, ZNORMALIZEDFILEEXTENSION, ZFILESIZE, ZWIDTH, ZHEIGHT, ZUNUSED) VALUES
+        (1, 1, 'FILE-IMG', 'diagram.png', 'png', 4, 640, 480, 0),
+        (2, 1, 'FILE-PDF', 'report.pdf', 'pdf', 3, 0, 0, 0),
+        (3, 1, 'FILE-GONE', 'removed.png', 'png', 1, 1, 1, 1),
+        (4, 1, 'FILE-CLOUD', 'elsewhere.png', 'png', 1, 1, 1, 0)`
+    );
+    return fixture;
+  };
+
+  beforeAll(() => {
+    mkdirSync(join(files, "Note Images", "FILE-IMG"), { recursive: true });
+    writeFileSync(join(files, "Note Images", "FILE-IMG", "diagram.png"), "\x89PNG");
+    mkdirSync(join(files, "Note Files", "FILE-PDF"), { recursive: true });
+    writeFileSync(join(files, "Note Files", "FILE-PDF", "report.pdf"), "%PD");
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("getNoteContent lists live attachments with their metadata and path", () => {
+    const note = getNoteContent("NOTE-A", fileDb());
+    expect(note?.attachments).toEqual([
+      {
+        id: "FILE-IMG",
+        filename: "diagram.png",
+        type: "image",
+        mediaType: "image/png",
+        size: 4,
+        width: 640,
+        height: 480,
+        path: join(files, "Note Images", "FILE-IMG", "diagram.png"),
+      },
+      {
+        id: "FILE-PDF",
+        filename: "report.pdf",
+        type: "file",
+        mediaType: "application/pdf",
+        size: 3,
+        path: join(files, "Note Files", "FILE-PDF", "report.pdf"),
+      },
+      {
+        id: "FILE-CLOUD",
+        filename: "elsewhere.png",
+        type: "image",
+        mediaType: "image/png",
+        size: 1,
+        width: 1,
+        height: 1,
+        path: join(files, "Note Images", "FILE-CLOUD", "elsewhere.png"),
+      },
+    ]);
+  });
+
+  test("an in-memory database lists attachments without paths", () => {
+    const fixture = buildFixture();
+    fixture.run(`INSERT INTO ZSFNOTEFILE (Z_PK, ZNOTE, ZUNIQUEIDENTIFIER, ZFILENAME) VALUES (1, 1, 'F', 'a.gif')`);
+    expect(getNoteContent("NOTE-A", fixture)?.attachments).toEqual([
+      { id: "F", filename: "a.gif", type: "image", mediaType: "image/gif" },
+    ]);
+    expect(getNoteContent("NOTE-B", fixture)?.attachments).toEqual([]);
+  });
+
+  test("a database without the file table has no attachments field", () => {
+    const fixture = buildFixture();
+    fixture.run("DROP TABLE ZSFNOTEFILE");
+    const note = getNoteContent("NOTE-A", fixture);
+    expect(note && "attachments" in note).toBe(false);
+  });
+
+  test("getAttachment reads the bytes, and is null for an unknown or unused id", () => {
+    const fixture = fileDb();
+    const found = getAttachment("FILE-PDF", fixture);
+    expect(found?.attachment.filename).toBe("report.pdf");
+    expect(found?.data.toString()).toBe("%PD");
+    expect(getAttachment("FILE-GONE", fixture)).toBeNull();
+    expect(getAttachment("NO-SUCH", fixture)).toBeNull();
+  });
+
+  test("getAttachment refuses a file that is not on disk", () => {
+    expect(() => getAttachment("FILE-CLOUD", fileDb())).toThrow(/not on this Mac/);
+  });
+
+  test("getAttachment refuses a file over the size limit instead of reading it", () => {
+    writeFileSync(join(files, "Note Images", "FILE-IMG", "diagram.png"), Buffer.alloc(MAX_ATTACHMENT_BYTES + 1));
+    try {
+      expect(() => getAttachment("FILE-IMG", fileDb())).toThrow(/over the \d+ byte limit/);
+    } finally {
+      writeFileSync(join(files, "Note Images", "FILE-IMG", "diagram.png"), "\x89PNG");
+    }
+  });
+});
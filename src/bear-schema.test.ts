@@ -2,13 +2,10 @@ import { test, expect, describe } from "bun:test";
 import { Database } from "bun:sqlite";
 import { discoverTagJoin } from "./bear-schema";
 import { searchNotes, getAllTags } from "./bear";
-import { createBearTables, CORE_DATA_2021 } from "./bear-fixture";
+import { createBearTables, insertNote } from "./bear-fixture";
 
 const withNote = (db: Database): Database => {
-  db.run(
-    `INSERT INTO ZSFNOTE (Z_PK, ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT, ZCREATIONDATE, ZMODIFICATIONDATE, ZTRASHED, ZARCHIVED) VALUES
-      (1, 'N-1', 'Alpha', 'body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0)`
-  );
+  insertNote(db, { pk: 1, id: "N-1", title: "Alpha" });
   db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'work')`);
   return db;
 };
@@ -107,6 +107,44 @@ export const tagJoin = (db: Database): TagJoin => {
   return discovered;
 };
 
+// Columns and tables Bear added over time are not in every database a user
+// may point this server at. A reader that wants one checks for it here and
+// leaves it out when it is missing, rather than failing on an older store.
+// Cached per handle and table, like tagJoin; a missing table has no columns.
+const columnCache = new WeakMap<Database, Map<string, Set<string>>>();
+
+const hasColumns = (db: Database, table: string, columns: string[]): boolean => {
+  let tables = columnCache.get(db);
+  if (!tables) {
+    tables = new Map();
+    columnCache.set(db, tables);
+  }
+  let present = tables.get(table);
+  if (!present) {
+    present = new Set(tableColumns(db, table));
+    tables.set(table, present);
+  }
+  return columns.every(column => present.has(column));
+};
+
+export const hasNoteColumn = (db: Database, column: string): boolean => hasColumns(db, "ZSFNOTE", [column]);
+
+// Bear's own index of wiki links, ZSFNOTEBACKLINK: one row per link between
+// two notes, ZLINKEDBY holding the Z_PK of the note the link is written in and
+// ZLINKINGTO that of the note it points at. Databases from before Bear had
+// wiki links lack the table, and a reader then parses the bodies instead.
+export const hasBacklinkTable = (db: Database): boolean =>
+  hasColumns(db, "ZSFNOTEBACKLINK", ["ZLINKEDBY", "ZLINKINGTO"]);
+
+// Bear's attachments, ZSFNOTEFILE: one row per image or file, ZNOTE holding
+// the Z_PK of the note it is attached to. The other columns it carries vary
+// more between versions, so each is checked on its own.
+const FILE_COLUMNS = ["ZNOTE", "ZUNIQUEIDENTIFIER", "ZFILENAME"];
+
+export const hasFileTable = (db: Database): boolean => hasColumns(db, "ZSFNOTEFILE", FILE_COLUMNS);
+
+export const hasFileColumn = (db: Database, column: string): boolean => hasColumns(db, "ZSFNOTEFILE", [column]);
+
 // `JOIN <join table> nt ON <noteAlias>.Z_PK = nt.<note column>` for a query
 // that starts from ZSFNOTE. The alias `nt` is the caller's handle on the tag
 // side of the join.
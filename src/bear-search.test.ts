@@ -1,7 +1,7 @@
 import { test, expect, describe, beforeAll } from "bun:test";
 import { Database } from "bun:sqlite";
-import { searchNotes, listNotesByTag, DEFAULT_BROWSE_LIMIT } from "./bear";
-import { createBearTables, CORE_DATA_2021 } from "./bear-fixture";
+import { searchNotes, listNotesByTag, listArchivedNotes, listUntaggedNotes, DEFAULT_BROWSE_LIMIT } from "./bear";
+import { createBearTables, insertNote, CORE_DATA_2021 } from "./bear-fixture";
 
 const buildFixture = (): Database => {
   const db = new Database(":memory:");
@@ -11,16 +11,13 @@ const buildFixture = (): Database => {
   // non-ASCII case behavior. S-5000 / S-FILEXNAME are decoys that a wildcard
   // would wrongly match; S-WORK / S-HOMEWORK share body text but differ by
   // tag; S-SV carries Swedish text and a Swedish tag.
-  db.run(
-    `INSERT INTO ZSFNOTE (Z_PK, ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT, ZCREATIONDATE, ZMODIFICATIONDATE, ZTRASHED, ZARCHIVED) VALUES
-      (1, 'S-DISCOUNT',   'Discount 50% off', 'save now',      ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-      (2, 'S-5000',       '5000 widgets',     'bulk',          ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-      (3, 'S-UNDERSCORE', 'file_name',        'doc',           ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-      (4, 'S-FILEXNAME',  'filexname',        'doc',           ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-      (5, 'S-WORK',       'work note',        'alpha content', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-      (6, 'S-HOMEWORK',   'homework note',    'alpha content', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-      (7, 'S-SV',         'Åtgärder',         'nästa möte',    ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0)`
-  );
+  insertNote(db, { pk: 1, id: "S-DISCOUNT", title: "Discount 50% off", text: "save now" });
+  insertNote(db, { pk: 2, id: "S-5000", title: "5000 widgets", text: "bulk" });
+  insertNote(db, { pk: 3, id: "S-UNDERSCORE", title: "file_name", text: "doc" });
+  insertNote(db, { pk: 4, id: "S-FILEXNAME", title: "filexname", text: "doc" });
+  insertNote(db, { pk: 5, id: "S-WORK", title: "work note", text: "alpha content" });
+  insertNote(db, { pk: 6, id: "S-HOMEWORK", title: "homework note", text: "alpha content" });
+  insertNote(db, { pk: 7, id: "S-SV", title: "Åtgärder", text: "nästa möte" });
   db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (21, 'work'), (22, 'homework'), (23, 'möte')`);
   db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (5, 21), (6, 22), (7, 23)`);
 
@@ -167,3 +164,452 @@ describe("paging", () => {
     expect(page.hasMore).toBe(false);
   });
 });
+
+describe("the query language", () => {
+  const queryDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "Q-PAID", title: "Invoice 1", text: "invoice for march" });
+    insertNote(db, { pk: 2, id: "Q-OPEN", title: "Invoice 2", text: "invoice for april" });
+    insertNote(db, { pk: 3, id: "Q-MENTION", title: "Notes", text: "see the invoice" });
+    insertNote(db, { pk: 4, id: "Q-ARCHIVED", title: "Old invoice", text: "archived invoice", archived: 1 });
+    insertNote(db, { pk: 5, id: "Q-TRASHED", title: "Bad invoice", text: "trashed invoice", trashed: 1 });
+    db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (21, 'Paid'), (22, 'work')`);
+    db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 21), (1, 22), (2, 22)`);
+    return db;
+  };
+
+  test("notes mentioning invoice but not tagged paid, in one call", () => {
+    expect(ids(searchNotes({ query: "invoice -tag:paid" }, queryDb()))).toEqual(["Q-MENTION", "Q-OPEN"]);
+  });
+
+  test("title: restricts a term to the title", () => {
+    expect(ids(searchNotes({ query: "title:invoice" }, queryDb()))).toEqual(["Q-OPEN", "Q-PAID"]);
+  });
+
+  test("a phrase matches only the exact sequence", () => {
+    expect(ids(searchNotes({ query: '"for april"' }, queryDb()))).toEqual(["Q-OPEN"]);
+    expect(ids(searchNotes({ query: "april OR march" }, queryDb()))).toEqual(["Q-OPEN", "Q-PAID"]);
+  });
+
+  test("live notes only, unless an in: term asks for another scope", () => {
+    const db = queryDb();
+    expect(ids(searchNotes({ query: "invoice" }, db))).not.toContain("Q-ARCHIVED");
+    expect(ids(searchNotes({ query: "invoice in:archived" }, db))).toEqual(["Q-ARCHIVED"]);
+    expect(ids(searchNotes({ query: "in:trash" }, db))).toEqual(["Q-TRASHED"]);
+  });
+
+  test("a negated in: term keeps the search to live notes", () => {
+    const db = queryDb();
+    const live = ["Q-MENTION", "Q-OPEN", "Q-PAID"];
+    expect(ids(searchNotes({ query: "invoice -in:archived" }, db))).toEqual(live);
+    expect(ids(searchNotes({ query: "invoice -in:trash" }, db))).toEqual(live);
+    expect(ids(searchNotes({ query: "invoice -(in:trash)" }, db))).toEqual(live);
+  });
+
+  test("an in: term under OR adds its scope and nothing more", () => {
+    expect(ids(searchNotes({ query: "april OR in:trash" }, queryDb()))).toEqual(["Q-OPEN", "Q-TRASHED"]);
+  });
+
+  test("results from a widened scope say which scope they are in", () => {
+    const [note] = searchNotes({ query: "in:trash" }, queryDb()).notes;
+    expect(note.isTrashed).toBe(true);
+  });
+
+  test("the query intersects with term and tag", () => {
+    expect(ids(searchNotes({ query: "invoice", tag: "work", term: "april" }, queryDb()))).toEqual(["Q-OPEN"]);
+  });
+
+  test("a tag-only query pages through every match", () => {
+    const db = queryDb();
+    const first = searchNotes({ query: "tag:work", limit: 1 }, db);
+    expect(first.hasMore).toBe(true);
+    const second = searchNotes({ query: "tag:work", limit: 1, offset: 1 }, db);
+    expect(second.hasMore).toBe(false);
+    expect([...ids(first), ...ids(second)].sort()).toEqual(["Q-OPEN", "Q-PAID"]);
+  });
+
+  test("a syntax error reaches the caller as itself, not as a generic read failure", () => {
+    expect(() => searchNotes({ query: '"unterminated' }, queryDb())).toThrow(/Unterminated quote/);
+  });
+
+  test("a blank query is no filter, like a blank term", () => {
+    expect(searchNotes({ query: "   " }, queryDb()).count).toBe(3);
+  });
+});
+
+describe("relevance ordering", () => {
+  // Every note mentions "roadmap"; they differ in where and how often. Equal
+  // modification dates, so only the score (and then the id) orders them.
+  const rankDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    const passing = `${"unrelated words ".repeat(40)}and the roadmap once`;
+    insertNote(db, { pk: 1, id: "R-PASSING", title: "Diary", text: `# Diary\n${passing}` });
+    insertNote(db, { pk: 2, id: "R-TITLE", title: "Roadmap", text: "# Roadmap\nplans" });
+    insertNote(db, { pk: 3, id: "R-HEADING", title: "Plans", text: "# Plans\n## Roadmap\nitems" });
+    insertNote(db, { pk: 4, id: "R-TWICE-A", title: "Notes A", text: "# Notes A\nroadmap talk" });
+    insertNote(db, { pk: 5, id: "R-TWICE-B", title: "Notes B", text: "# Notes B\nroadmap talk" });
+    insertNote(db, { pk: 6, id: "R-OTHER", title: "Budget", text: "# Budget\nnumbers" });
+    return db;
+  };
+
+  const order = (page: { notes: { id: string }[] }) => page.notes.map(note => note.id);
+
+  test("a title hit outranks a heading hit, which outranks a passing mention in a long note", () => {
+    const page = searchNotes({ term: "roadmap", order: "relevance" }, rankDb());
+    const ranked = order(page);
+    expect(ranked[0]).toBe("R-TITLE");
+    expect(ranked.indexOf("R-HEADING")).toBeLessThan(ranked.indexOf("R-TWICE-A"));
+    expect(ranked.at(-1)).toBe("R-PASSING");
+    expect(ranked).not.toContain("R-OTHER");
+  });
+
+  test("each ranked note carries its score, highest first", () => {
+    const scores = searchNotes({ term: "roadmap", order: "relevance" }, rankDb()).notes.map(note => note.score!);
+    expect(scores.every(score => score > 0)).toBe(true);
+    expect([...scores].sort((a, b) => b - a)).toEqual(scores);
+  });
+
+  test("equal scores page deterministically, without repeating or skipping a note", () => {
+    const db = rankDb();
+    const all = order(searchNotes({ term: "roadmap", order: "relevance" }, db));
+    const paged = [0, 1, 2, 3, 4].flatMap(offset =>
+      order(searchNotes({ term: "roadmap", order: "relevance", limit: 1, offset }, db))
+    );
+    expect(paged).toEqual(all);
+    // Equal score and date: the id decides, in the default sort's direction.
+    expect(all.indexOf("R-TWICE-B")).toBe(all.indexOf("R-TWICE-A") - 1);
+  });
+
+  test("query text is ranked too, and a negated term does not count", () => {
+    const ranked = order(searchNotes({ query: "roadmap -budget", order: "relevance" }, rankDb()));
+    expect(ranked[0]).toBe("R-TITLE");
+  });
+
+  test("the default order carries no score", () => {
+    expect(searchNotes({ term: "roadmap" }, rankDb()).notes.every(note => note.score === undefined)).toBe(true);
+  });
+
+  test("relevance with nothing to rank by is refused", () => {
+    expect(() => searchNotes({ tag: "work", order: "relevance" }, rankDb())).toThrow(/needs a term or query text/);
+  });
+});
+
+describe("snippets", () => {
+  test("are returned only when asked for, around the term, in the note's own spelling", () => {
+    expect(searchNotes({ term: "möte" }, db).notes[0].snippets).toBeUndefined();
+    const [note] = searchNotes({ term: "MÖTE", snippets: 2 }, db).notes;
+    expect(note.id).toBe("S-SV");
+    expect(note.snippets).toEqual(["nästa «möte»"]);
+  });
+
+  test("a note that matched only in its title has no snippets to show", () => {
+    const [note] = searchNotes({ term: "widgets", snippets: 1 }, db).notes;
+    expect(note.snippets).toEqual([]);
+  });
+
+  test("apply to a tag-only search only with a term to cut around", () => {
+    expect(() => searchNotes({ tag: "work", snippets: 1 }, db)).toThrow(/need a term/);
+  });
+});
+
+describe("date ranges", () => {
+  const DAY = 86_400;
+  // CORE_DATA_2021 is 2021-01-01T00:00:00Z. Notes are created a day apart and
+  // each modified ten days after it was created.
+  const datedDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "D-JAN1", title: "Plan one", text: "plan", modifiedAt: CORE_DATA_2021 + 10 * DAY });
+    insertNote(db, { pk: 2, id: "D-JAN2", title: "Plan two", text: "plan", createdAt: CORE_DATA_2021 + DAY, modifiedAt: CORE_DATA_2021 + 11 * DAY });
+    insertNote(db, { pk: 3, id: "D-JAN3", title: "Plan three", text: "plan", createdAt: CORE_DATA_2021 + 2 * DAY, modifiedAt: CORE_DATA_2021 + 12 * DAY });
+    insertNote(db, { pk: 4, id: "D-ARCH", title: "Old plan", text: "plan", createdAt: CORE_DATA_2021 + DAY, modifiedAt: CORE_DATA_2021 + 11 * DAY, archived: 1 });
+    insertNote(db, { pk: 5, id: "D-NULL", title: "Undated", text: "plan", createdAt: null, modifiedAt: null });
+    db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (21, 'work')`);
+    db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 21), (2, 21), (3, 21)`);
+    return db;
+  };
+
+  test("after is inclusive and before exclusive, so adjacent ranges do not overlap", () => {
+    const db = datedDb();
+    expect(ids(searchNotes({ createdAfter: "2021-01-02", createdBefore: "2021-01-03" }, db))).toEqual(["D-JAN2"]);
+    expect(ids(searchNotes({ createdAfter: "2021-01-03" }, db))).toEqual(["D-JAN3"]);
+  });
+
+  test("a note with no date is outside every range", () => {
+    expect(ids(searchNotes({ modifiedBefore: "2030-01-01" }, datedDb()))).toEqual(["D-JAN1", "D-JAN2", "D-JAN3"]);
+  });
+
+  test("dates without an offset are read in the given time zone", () => {
+    // 20:00 on 1 January in New York is 01:00 UTC on 2 January, after D-JAN2 was created.
+    const db = datedDb();
+    expect(ids(searchNotes({ createdBefore: "2021-01-01T20:00" }, db))).toEqual(["D-JAN1"]);
+    expect(ids(searchNotes({ createdBefore: "2021-01-01T20:00", timeZone: "America/New_York" }, db))).toEqual([
+      "D-JAN1",
+      "D-JAN2",
+    ]);
+  });
+
+  test("combine with term and tag, and keep paging in SQL", () => {
+    const db = datedDb();
+    const first = searchNotes({ tag: "work", modifiedAfter: "2021-01-12", limit: 1 }, db);
+    expect(first.notes.map(note => note.id)).toEqual(["D-JAN3"]);
+    expect(first.hasMore).toBe(true);
+    expect(ids(searchNotes({ term: "plan", modifiedBefore: "2021-01-12" }, db))).toEqual(["D-JAN1"]);
+  });
+
+  test("apply to bear_list_by_tag and bear_list_archived too", () => {
+    const db = datedDb();
+    expect(ids(listNotesByTag("work", { createdBefore: "2021-01-02" }, db))).toEqual(["D-JAN1"]);
+    expect(ids(listArchivedNotes({ createdAfter: "2021-01-02" }, db))).toEqual(["D-ARCH"]);
+    expect(ids(listArchivedNotes({ createdAfter: "2021-01-03" }, db))).toEqual([]);
+  });
+
+  test("an unreadable date reaches the caller as itself, not as a read failure", () => {
+    expect(() => searchNotes({ createdAfter: "last tuesday" }, datedDb())).toThrow(/Cannot read 'last tuesday'/);
+    expect(() => listArchivedNotes({ modifiedAfter: "2021-02-30" }, datedDb())).toThrow(/not a valid date/);
+  });
+});
+
+describe("sort order", () => {
+  const DAY = 86_400;
+  // Created in one order, modified in the reverse, titled in a third; two
+  // share a modification date so the id has to break the tie.
+  const sortDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "O-1", title: "banana", text: "fruit", modifiedAt: CORE_DATA_2021 + 3 * DAY });
+    insertNote(db, { pk: 2, id: "O-2", title: "Äpple", text: "fruit", createdAt: CORE_DATA_2021 + DAY, modifiedAt: CORE_DATA_2021 + 2 * DAY });
+    insertNote(db, { pk: 3, id: "O-3", title: "apple", text: "fruit", createdAt: CORE_DATA_2021 + 2 * DAY, modifiedAt: CORE_DATA_2021 + 2 * DAY });
+    insertNote(db, { pk: 4, id: "O-4", title: "Cherry", text: "fruit", createdAt: CORE_DATA_2021 + 3 * DAY, modifiedAt: CORE_DATA_2021 + 4 * DAY, archived: 1 });
+    insertNote(db, { pk: 5, id: "O-5", title: "avocado", text: "fruit", createdAt: CORE_DATA_2021 + 4 * DAY, archived: 1 });
+    db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (21, 'fruit')`);
+    db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 21), (2, 21), (3, 21)`);
+    return db;
+  };
+
+  const order = (page: { notes: { id: string }[] }) => page.notes.map(note => note.id);
+
+  test("modified, newest first, is the default; ties go by id", () => {
+    expect(order(searchNotes({}, sortDb()))).toEqual(["O-1", "O-3", "O-2"]);
+    expect(order(searchNotes({ sort: "modified", direction: "asc" }, sortDb()))).toEqual(["O-2", "O-3", "O-1"]);
+  });
+
+  test('order "modified", the default order since relevance ordering came in, follows sort and direction', () => {
+    expect(order(searchNotes({ order: "modified" }, sortDb()))).toEqual(["O-1", "O-3", "O-2"]);
+    expect(order(searchNotes({ order: "modified", sort: "created", direction: "asc" }, sortDb()))).toEqual(["O-1", "O-2", "O-3"]);
+  });
+
+  test("created, either way", () => {
+    expect(order(searchNotes({ sort: "created" }, sortDb()))).toEqual(["O-3", "O-2", "O-1"]);
+    expect(order(searchNotes({ sort: "created", direction: "asc" }, sortDb()))).toEqual(["O-1", "O-2", "O-3"]);
+  });
+
+  test("title sorts A to Z by default, folding case like matching does", () => {
+    expect(order(searchNotes({ sort: "title" }, sortDb()))).toEqual(["O-3", "O-1", "O-2"]);
+    expect(order(searchNotes({ sort: "title", direction: "desc" }, sortDb()))).toEqual(["O-2", "O-1", "O-3"]);
+  });
+
+  test("the in-memory path orders the same way as SQL", () => {
+    const db = sortDb();
+    for (const sort of ["modified", "created"] as const) {
+      for (const direction of ["asc", "desc"] as const) {
+        expect(order(searchNotes({ term: "fruit", sort, direction }, db))).toEqual(
+          order(searchNotes({ sort, direction }, db))
+        );
+      }
+    }
+  });
+
+  test("pages stay stable under every sort", () => {
+    const db = sortDb();
+    for (const sort of ["modified", "created", "title"] as const) {
+      const all = order(searchNotes({ sort }, db));
+      const paged = [0, 1, 2].flatMap(offset => order(searchNotes({ sort, limit: 1, offset }, db)));
+      expect(paged).toEqual(all);
+    }
+  });
+
+  test("applies to bear_list_by_tag and bear_list_archived", () => {
+    const db = sortDb();
+    expect(order(listNotesByTag("fruit", { sort: "created", direction: "asc" }, db))).toEqual(["O-1", "O-2", "O-3"]);
+    expect(order(listArchivedNotes({ sort: "title" }, db))).toEqual(["O-5", "O-4"]);
+    expect(order(listArchivedNotes({ sort: "modified", direction: "asc" }, db))).toEqual(["O-5", "O-4"]);
+  });
+});
+
+describe("nested tags", () => {
+  const nestedDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "N-PARENT", title: "Parent", text: "text" });
+    insertNote(db, { pk: 2, id: "N-CHILD", title: "Child", text: "text" });
+    insertNote(db, { pk: 3, id: "N-BOTH", title: "Both", text: "text" });
+    insertNote(db, { pk: 4, id: "N-SHOP", title: "Shop", text: "text" });
+    db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (21, 'Work'), (22, 'work/Clients'), (23, 'work/clients/acme'), (24, 'workshop')`);
+    db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 21), (2, 22), (3, 22), (3, 23), (4, 24)`);
+    return db;
+  };
+
+  test("a tag matches only itself unless descendants are asked for", () => {
+    expect(ids(listNotesByTag("work", {}, nestedDb()))).toEqual(["N-PARENT"]);
+  });
+
+  test("includeDescendants takes in every level below, folded, once per note, and not a shared prefix", () => {
+    const page = listNotesByTag("WORK", { includeDescendants: true }, nestedDb());
+    expect(ids(page)).toEqual(["N-BOTH", "N-CHILD", "N-PARENT"]);
+    expect(ids(searchNotes({ tag: "work/clients", includeDescendants: true }, nestedDb()))).toEqual(["N-BOTH", "N-CHILD"]);
+  });
+});
+
+describe("tagsAll / tagsAny / tagsNone", () => {
+  const tagsDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "M-URGENT", title: "Urgent", text: "text", modifiedAt: CORE_DATA_2021 + 1 });
+    insertNote(db, { pk: 2, id: "M-DONE", title: "Done", text: "text", modifiedAt: CORE_DATA_2021 + 2 });
+    insertNote(db, { pk: 3, id: "M-PLAIN", title: "Plain", text: "text", modifiedAt: CORE_DATA_2021 + 3 });
+    insertNote(db, { pk: 4, id: "M-SOMEDAY", title: "Someday", text: "text", modifiedAt: CORE_DATA_2021 + 4 });
+    insertNote(db, { pk: 5, id: "M-UNTAGGED", title: "Untagged", text: "text", modifiedAt: CORE_DATA_2021 + 5 });
+    db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (21, 'project'), (22, 'Urgent'), (23, 'done'), (24, 'someday'), (25, 'urgent')`);
+    db.run(
+      `INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES
+        (1, 21), (1, 22), (2, 21), (2, 25), (2, 23), (3, 21), (4, 24)`
+    );
+    return db;
+  };
+
+  test("'tagged project and urgent but not done', across spellings of urgent", () => {
+    const page = searchNotes({ tagsAll: ["#project", "urgent"], tagsNone: ["done"] }, tagsDb());
+    expect(ids(page)).toEqual(["M-URGENT"]);
+  });
+
+  test("tagsAny takes the union, once per note", () => {
+    expect(ids(searchNotes({ tagsAny: ["urgent", "someday", "project"] }, tagsDb()))).toEqual([
+      "M-DONE",
+      "M-PLAIN",
+      "M-SOMEDAY",
+      "M-URGENT",
+    ]);
+  });
+
+  test("tagsNone on its own keeps untagged notes", () => {
+    expect(ids(searchNotes({ tagsNone: ["project"] }, tagsDb()))).toEqual(["M-SOMEDAY", "M-UNTAGGED"]);
+  });
+
+  test("an unknown tag empties tagsAll, drops out of tagsAny and excludes nothing in tagsNone", () => {
+    const db = tagsDb();
+    expect(searchNotes({ tagsAll: ["project", "nope"] }, db).count).toBe(0);
+    expect(ids(searchNotes({ tagsAny: ["nope", "someday"] }, db))).toEqual(["M-SOMEDAY"]);
+    expect(searchNotes({ tagsAny: ["nope"] }, db).count).toBe(0);
+    expect(searchNotes({ tagsNone: ["nope"] }, db).count).toBe(5);
+  });
+
+  test("blank entries are ignored, and everything intersects with tag and term", () => {
+    const db = tagsDb();
+    expect(ids(searchNotes({ tag: "project", tagsNone: ["", "#", "done"] }, db))).toEqual(["M-PLAIN", "M-URGENT"]);
+    expect(ids(searchNotes({ term: "plain", tagsAll: ["project"] }, db))).toEqual(["M-PLAIN"]);
+  });
+
+  test("pages in SQL without a term", () => {
+    const page = searchNotes({ tagsAll: ["project"], limit: 2 }, tagsDb());
+    expect(page.notes.map(note => note.id)).toEqual(["M-PLAIN", "M-DONE"]);
+    expect(page.hasMore).toBe(true);
+  });
+});
+
+describe("untagged notes", () => {
+  const untaggedDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "U-TAGGED", title: "Tagged", text: "inbox item", modifiedAt: CORE_DATA_2021 + 1 });
+    insertNote(db, { pk: 2, id: "U-BARE", title: "Bare", text: "inbox item", modifiedAt: CORE_DATA_2021 + 2 });
+    insertNote(db, { pk: 3, id: "U-OTHER", title: "Other", text: "grocery list", modifiedAt: CORE_DATA_2021 + 3 });
+    insertNote(db, { pk: 4, id: "U-NULLTAG", title: "Null tag", text: "inbox item", modifiedAt: CORE_DATA_2021 + 4 });
+    insertNote(db, { pk: 5, id: "U-TRASHED", title: "Trashed", text: "inbox item", modifiedAt: CORE_DATA_2021 + 5, trashed: 1 });
+    insertNote(db, { pk: 6, id: "U-ARCHIVED", title: "Archived", text: "inbox item", modifiedAt: CORE_DATA_2021 + 6, archived: 1 });
+    insertNote(db, { pk: 7, id: null, title: "No id", text: "inbox item", modifiedAt: CORE_DATA_2021 + 7 });
+    db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (21, 'work'), (22, NULL)`);
+    db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 21), (4, 22)`);
+    return db;
+  };
+
+  test("lists live, addressable notes with no tag, counting a nameless tag as none", () => {
+    expect(ids(listUntaggedNotes({}, untaggedDb()))).toEqual(["U-BARE", "U-NULLTAG", "U-OTHER"]);
+  });
+
+  test("combines with a term and the date filters", () => {
+    const db = untaggedDb();
+    expect(ids(listUntaggedNotes({ term: "INBOX" }, db))).toEqual(["U-BARE", "U-NULLTAG"]);
+    expect(ids(listUntaggedNotes({ term: "inbox", modifiedBefore: "2021-01-01T00:00:03Z" }, db))).toEqual(["U-BARE"]);
+  });
+
+  test("pages with hasMore", () => {
+    const page = listUntaggedNotes({ limit: 2 }, untaggedDb());
+    expect(page.notes.map(note => note.id)).toEqual(["U-NULLTAG", "U-OTHER"]);
+    expect(page.hasMore).toBe(true);
+  });
+});
+
+describe("pinned notes", () => {
+  const pinnedDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "P-OLD-PINNED", title: "Old pinned", text: "plan", modifiedAt: CORE_DATA_2021 + 1, pinned: 1 });
+    insertNote(db, { pk: 2, id: "P-NEW", title: "New", text: "plan", modifiedAt: CORE_DATA_2021 + 3, pinned: 0 });
+    insertNote(db, { pk: 3, id: "P-NEW-PINNED", title: "New pinned", text: "plan", modifiedAt: CORE_DATA_2021 + 2, pinned: 1 });
+    insertNote(db, { pk: 4, id: "P-NULL", title: "Unset flag", text: "plan", modifiedAt: CORE_DATA_2021 + 4, pinned: null });
+    insertNote(db, { pk: 5, id: "P-ARCHIVED", title: "Archived", text: "plan", modifiedAt: CORE_DATA_2021 + 5, archived: 1, pinned: 1 });
+    return db;
+  };
+  const order = (page: { notes: { id: string }[] }) => page.notes.map(note => note.id);
+
+  test("every result says whether it is pinned, an unset flag reading as not pinned", () => {
+    const flags = Object.fromEntries(searchNotes({}, pinnedDb()).notes.map(note => [note.id, note.isPinned]));
+    expect(flags).toEqual({ "P-OLD-PINNED": true, "P-NEW": false, "P-NEW-PINNED": true, "P-NULL": false });
+  });
+
+  test("pinned: true and false split the notes between them", () => {
+    const db = pinnedDb();
+    expect(ids(searchNotes({ pinned: true }, db))).toEqual(["P-NEW-PINNED", "P-OLD-PINNED"]);
+    expect(ids(searchNotes({ pinned: false, term: "PLAN" }, db))).toEqual(["P-NEW", "P-NULL"]);
+  });
+
+  test("pinnedFirst groups pinned notes on top, each group in the requested order", () => {
+    const db = pinnedDb();
+    const expected = ["P-NEW-PINNED", "P-OLD-PINNED", "P-NULL", "P-NEW"];
+    expect(order(searchNotes({ pinnedFirst: true }, db))).toEqual(expected);
+    // The in-memory path, through a term, and the SQL path agree.
+    expect(order(searchNotes({ pinnedFirst: true, term: "plan" }, db))).toEqual(expected);
+    expect(order(searchNotes({ pinnedFirst: true, direction: "asc" }, db))).toEqual([
+      "P-OLD-PINNED",
+      "P-NEW-PINNED",
+      "P-NEW",
+      "P-NULL",
+    ]);
+    expect(order(searchNotes({ pinnedFirst: true, sort: "title" }, db))).toEqual([
+      "P-NEW-PINNED",
+      "P-OLD-PINNED",
+      "P-NEW",
+      "P-NULL",
+    ]);
+  });
+
+  test("pinnedFirst applies to the archive listing too", () => {
+    const db = pinnedDb();
+    db.run("UPDATE ZSFNOTE SET ZARCHIVED = 1 WHERE Z_PK = 2");
+    expect(order(listArchivedNotes({ pinnedFirst: true }, db))).toEqual(["P-ARCHIVED", "P-NEW"]);
+    expect(listArchivedNotes({}, db).notes[0].isPinned).toBe(true);
+  });
+
+  test("a database that predates ZPINNED has no pinned notes and omits the flag", () => {
+    const db = pinnedDb();
+    db.run("ALTER TABLE ZSFNOTE DROP COLUMN ZPINNED");
+    const page = searchNotes({ pinnedFirst: true }, db);
+    expect(order(page)).toEqual(["P-NULL", "P-NEW", "P-NEW-PINNED", "P-OLD-PINNED"]);
+    expect(page.notes.some(note => "isPinned" in note)).toBe(false);
+    expect(searchNotes({ pinned: true }, db).count).toBe(0);
+    expect(searchNotes({ pinned: false }, db).count).toBe(4);
+  });
+});
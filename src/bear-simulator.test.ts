@@ -0,0 +1,286 @@
+import { test, expect, describe, beforeEach, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createBearServer } from "./tools";
+import { setBearUrlRunner, resetBearUrlRunner } from "./bear";
+import { createBearTables } from "./bear-fixture";
+import { createBearSimulator, titleOf } from "./bear-simulator";
+import { findTags } from "./note-format";
+
+describe("the simulator reads notes the way Bear does", () => {
+  const names = (text: string) => findTags(text).map(token => token.name);
+
+  test("the title is the first line without its heading marker", () => {
+    expect(titleOf("# My Note\n#work\n\nbody")).toBe("My Note");
+    expect(titleOf("Plain first line\nbody")).toBe("Plain first line");
+  });
+
+  test("plain, nested and multiword tags are found, headings are not", () => {
+    expect(names("# Title\n#work #a/b #my tag#\n\n## Heading")).toEqual(["work", "a/b", "my tag"]);
+  });
+
+  test("a # inside a word or before a space starts no tag", () => {
+    expect(names("c# and f# and # alone")).toEqual([]);
+  });
+
+  test("sentence punctuation after a tag is not part of it", () => {
+    expect(names("see #work.")).toEqual(["work"]);
+  });
+
+  test("a closing # only makes a multiword tag when the name has whitespace", () => {
+    expect(names("#c# rest")).toEqual(["c#"]);
+    expect(names("#work and #more")).toEqual(["work", "more"]);
+  });
+});
+
+// The Phase 1-4 flows of docs/TEST-PROTOCOL.md, driven through the tool
+// surface against the simulator. Each write is checked by reading it back
+// through the server, which is exactly the shared-witness shortcut the
+// protocol warns about; this is the fixture-level version of it, not a
+// replacement.
+describe("protocol flows against the simulated Bear", () => {
+  let db: Database;
+  let client: Client;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    createBearTables(db);
+    setBearUrlRunner(createBearSimulator(db));
+
+    const server = createBearServer(() => db);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "simulator-test", version: "1.0.0" });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterAll(() => {
+    resetBearUrlRunner();
+  });
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    const text = (result as { content: Array<{ text: string }> }).content[0].text;
+    expect(result.isError).toBeUndefined();
+    return text;
+  };
+  const json = async (name: string, args: Record<string, unknown> = {}) => JSON.parse(await call(name, args));
+
+  const createProtocolNote = () =>
+    json("bear_create_note", {
+      title: "MCP protocol RUN",
+      text: "Nästa möte om zqxRUN. Rabatt 50% och file_name här.",
+      tags: ["mcp-protocol-RUN", "#mcp-protocol-RUN/nested", "#mcp-protocol-RUN med mellanslag#"],
+    });
+
+  test("Phase 1-2: a created note reads back with its title, tags and body", async () => {
+    const created = await createProtocolNote();
+    const note = await json("bear_get_note", { noteId: created.id });
+
+    expect(note.title).toBe("MCP protocol RUN");
+    expect(note.tags.sort()).toEqual(["mcp-protocol-RUN", "mcp-protocol-RUN med mellanslag", "mcp-protocol-RUN/nested"]);
+    expect(note.content).toContain("50% och file_name");
+    expect(note.isTrashed).toBe(false);
+    expect(note.isArchived).toBe(false);
+
+    const found = await json("bear_search", { term: "MÖTE OM ZQXRUN" });
+    expect(found.notes.map((hit: { id: string }) => hit.id)).toEqual([created.id]);
+    expect((await json("bear_list_by_tag", { tag: "#MCP-PROTOCOL-RUN" })).count).toBe(1);
+  });
+
+  test("Phase 3: append, prepend and replace land in that order", async () => {
+    const { id } = await createProtocolNote();
+
+    expect(await call("bear_append", { noteId: id, text: "APPENDED-zqxRUN", confirm: true })).toStartWith("Confirmed");
+    expect(await call("bear_prepend", { noteId: id, text: "PREPENDED-zqxRUN", confirm: true })).toStartWith("Confirmed");
+
+    let note = await json("bear_get_note", { noteId: id });
+    expect(note.content).toEndWith("APPENDED-zqxRUN");
+    expect(note.content.split("\n")[1]).toBe("PREPENDED-zqxRUN");
+    expect(note.title).toBe("MCP protocol RUN");
+
+    const replaced = await call("bear_replace_content", {
+      noteId: id,
+      title: "MCP protocol RUN REPLACED",
+      text: "Replaced body zqxRUN",
+      tags: ["mcp-protocol-RUN"],
+      confirm: true,
+    });
+    expect(replaced).toStartWith("Confirmed");
+
+    note = await json("bear_get_note", { noteId: id });
+    expect(note.title).toBe("MCP protocol RUN REPLACED");
+    expect(note.content).not.toContain("APPENDED");
+    expect(note.content).not.toContain("PREPENDED");
+    expect(note.tags).toEqual(["mcp-protocol-RUN"]);
+  });
+
+  test("Phase 4: renaming and deleting tags rewrites the note and the tag list", async () => {
+    const { id } = await createProtocolNote();
+
+    const renamed = await call("bear_rename_tag", { name: "mcp-protocol-RUN", newName: "mcp-protocol-RUN-renamed", confirm: true });
+    expect(renamed).toStartWith("Confirmed");
+    let note = await json("bear_get_note", { noteId: id });
+    expect(note.tags).toContain("mcp-protocol-RUN-renamed");
+    expect(note.tags).not.toContain("mcp-protocol-RUN");
+    expect(note.content).toContain("#mcp-protocol-RUN-renamed");
+
+    const deleted = await call("bear_delete_tag", { name: "#mcp-protocol-RUN med mellanslag#", confirm: true });
+    expect(deleted).toStartWith("Confirmed");
+    note = await json("bear_get_note", { noteId: id });
+    expect(note.tags).not.toContain("mcp-protocol-RUN med mellanslag");
+
+    const tags = (await json("bear_list_tags")).map((tag: { name: string }) => tag.name);
+    expect(tags).not.toContain("mcp-protocol-RUN med mellanslag");
+    expect((await json("bear_list_by_tag", { tag: "mcp-protocol-RUN-renamed" })).count).toBe(1);
+  });
+
+  test("archive and trash move the note out of the live views", async () => {
+    const { id } = await createProtocolNote();
+
+    expect(await call("bear_archive_note", { noteId: id, confirm: true })).toStartWith("Confirmed");
+    expect((await json("bear_list_archived")).notes.map((note: { id: string }) => note.id)).toEqual([id]);
+    expect((await json("bear_search", { term: "zqxRUN" })).count).toBe(0);
+
+    expect(await call("bear_trash_note", { noteId: id, confirm: true })).toStartWith("Confirmed");
+    expect((await json("bear_get_note", { noteId: id })).isTrashed).toBe(true);
+
+    const trashed = await json("bear_list_trashed", { term: "zqxRUN" });
+    expect(trashed.notes.map((note: { id: string }) => note.id)).toEqual([id]);
+    expect(trashed.notes[0].trashedAt).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+  });
+
+  test("todos written to a note are listed, and checked ones drop out of the open list", async () => {
+    const { id } = await json("bear_create_note", { title: "Standup RUN", text: "- [ ] zqx open\n- [x] zqx done" });
+    expect(await call("bear_append", { noteId: id, text: "- [ ] zqx later", confirm: true })).toStartWith("Confirmed");
+
+    const open = await json("bear_list_todos", { term: "zqx" });
+    expect(open.todos.map((todo: { text: string }) => todo.text)).toEqual(["zqx open", "zqx later"]);
+    expect((await json("bear_list_todos", { term: "zqx", state: "done" })).count).toBe(1);
+  });
+
+  test("checking a todo changes its box and nothing else, title and tags included", async () => {
+    const { id } = await json("bear_create_note", {
+      title: "Standup RUN",
+      text: "- [ ] zqx first\n- [ ] zqx second",
+      tags: ["mcp-protocol-RUN med mellanslag"],
+    });
+    const before = (await json("bear_get_note", { noteId: id })).content as string;
+    const [, second] = (await json("bear_list_todos", { term: "zqx" })).todos;
+
+    const result = await call("bear_set_todo", {
+      noteId: id,
+      line: second.line,
+      text: second.text,
+      done: true,
+      confirm: true,
+      expectedModifiedAt: second.noteModifiedAt,
+    });
+    expect(result).toStartWith("Confirmed");
+
+    const after = await json("bear_get_note", { noteId: id });
+    expect(after.content).toBe(before.replace("- [ ] zqx second", "- [x] zqx second"));
+    expect(after.tags).toEqual(["mcp-protocol-RUN med mellanslag"]);
+    expect((await json("bear_list_todos", { term: "zqx" })).count).toBe(1);
+  });
+
+  test("a wiki link written to one note shows up as the other's backlink", async () => {
+    const target = await json("bear_create_note", { title: "Links RUN", text: "target" });
+    const source = await json("bear_create_note", { title: "Source RUN", text: "see" });
+    expect(await call("bear_append", { noteId: source.id, text: "and [[links run]]", confirm: true })).toStartWith("Confirmed");
+
+    const links = await json("bear_get_links", { noteId: target.id });
+    expect(links.backlinks).toEqual([{ noteId: source.id, title: "Source RUN", line: 4, context: "and [[links run]]" }]);
+    expect((await json("bear_get_links", { noteId: source.id })).outgoing[0].noteIds).toEqual([target.id]);
+  });
+
+  test("section writes land under their heading and leave the title alone", async () => {
+    const { id } = await json("bear_create_note", {
+      title: "Daily RUN",
+      text: "## Decisions\n- one\n\n## Q3\n### Risks\nbudget\n## Q4\n### Risks\nhiring",
+    });
+
+    expect(await call("bear_append", { noteId: id, heading: "Decisions", text: "- two", confirm: true })).toStartWith("Confirmed");
+    expect(await call("bear_prepend", { noteId: id, heading: "q4/risks", text: "first", confirm: true })).toStartWith("Confirmed");
+    expect(await call("bear_replace_section", { noteId: id, heading: "Q3", text: "moved", confirm: true })).toStartWith("Confirmed");
+
+    const note = await json("bear_get_note", { noteId: id });
+    expect(note.title).toBe("Daily RUN");
+    expect(note.content).toContain("## Decisions\n- one\n- two\n\n## Q3\nmoved\n## Q4\n### Risks\nfirst\nhiring");
+    expect((await json("bear_get_section", { noteId: id, heading: "Risks" })).content).toBe("### Risks\nfirst\nhiring");
+  });
+
+  test("a folded find-and-replace edit changes only the matched text", async () => {
+    const { id } = await createProtocolNote();
+    const before = (await json("bear_get_note", { noteId: id })).content as string;
+
+    const result = await call("bear_edit_note", {
+      noteId: id,
+      edits: [{ find: "NÄSTA MÖTE", replace: "Nästa workshop" }],
+      folded: true,
+      confirm: true,
+    });
+    expect(result).toStartWith("Confirmed");
+    expect(result).toContain("+Nästa workshop om zqxRUN.");
+
+    const after = await json("bear_get_note", { noteId: id });
+    expect(after.content).toBe(before.replace("Nästa möte", "Nästa workshop"));
+    expect(after.title).toBe("MCP protocol RUN");
+  });
+
+  test("a bulk replace previews, then applies its token across the notes", async () => {
+    const first = await json("bear_create_note", { title: "Codename RUN", text: "zqxFalcon launch" });
+    const second = await json("bear_create_note", { title: "Other RUN", text: "see zqxFalcon", tags: ["mcp-protocol-RUN"] });
+
+    const preview = await json("bear_bulk_replace", { find: "zqxFalcon", replace: "zqxOsprey" });
+    expect(preview.totalReplacements).toBe(2);
+    expect((await json("bear_get_note", { noteId: first.id })).content).toContain("zqxFalcon");
+
+    const applied = await json("bear_bulk_replace", { find: "zqxFalcon", replace: "zqxOsprey", token: preview.token, confirm: true });
+    expect(applied.results.map((result: { status: string }) => result.status)).toEqual(["confirmed", "confirmed"]);
+    expect((await json("bear_get_note", { noteId: first.id })).content).toContain("zqxOsprey launch");
+    const note = await json("bear_get_note", { noteId: second.id });
+    expect(note.content).toContain("see zqxOsprey");
+    expect(note.tags).toEqual(["mcp-protocol-RUN"]);
+  });
+
+  test("tagging and untagging one note changes its tags and nothing else", async () => {
+    const { id } = await createProtocolNote();
+
+    const tagged = await json("bear_tag_note", { noteId: id, tags: ["zqx-added-RUN", "zqx added RUN"] });
+    expect(tagged.result).toStartWith("Confirmed");
+    expect(tagged.tagsBefore).not.toContain("zqx-added-RUN");
+    expect(tagged.tagsAfter).toContain("zqx-added-RUN");
+    expect(tagged.tagsAfter).toContain("zqx added RUN");
+
+    const untagged = await json("bear_untag_note", { noteId: id, tags: ["MCP-PROTOCOL-RUN", "zqx added RUN"] });
+    expect(untagged.result).toStartWith("Confirmed");
+    expect(untagged.tagsAfter.sort()).toEqual(["mcp-protocol-RUN med mellanslag", "mcp-protocol-RUN/nested", "zqx-added-RUN"]);
+
+    const note = await json("bear_get_note", { noteId: id });
+    expect(note.title).toBe("MCP protocol RUN");
+    expect(note.content).toContain("Nästa möte om zqxRUN. Rabatt 50% och file_name här.");
+  });
+
+  test("an edit made in Bear after the read is not overwritten", async () => {
+    const { id } = await createProtocolNote();
+    const { modifiedAt } = await json("bear_get_note", { noteId: id });
+
+    // The user edits the note in Bear a minute later.
+    db.run("UPDATE ZSFNOTE SET ZTEXT = ZTEXT || '\nedited in Bear', ZMODIFICATIONDATE = ZMODIFICATIONDATE + 60");
+
+    const result = await client.callTool({
+      name: "bear_replace_content",
+      arguments: { noteId: id, title: "MCP protocol RUN", text: "agent's version", expectedModifiedAt: modifiedAt },
+    });
+    expect(result.isError).toBe(true);
+    expect((await json("bear_get_note", { noteId: id })).content).toEndWith("edited in Bear");
+  });
+
+  test("a write to an unknown id changes nothing, as Bear ignores it", async () => {
+    await createProtocolNote();
+    const before = db.prepare("SELECT ZTEXT FROM ZSFNOTE").all();
+    await call("bear_append", { noteId: "NO-SUCH-NOTE", text: "lost" });
+    expect(db.prepare("SELECT ZTEXT FROM ZSFNOTE").all()).toEqual(before);
+  });
+});
@@ -0,0 +1,252 @@
+import type { Database } from "bun:sqlite";
+import type { BearUrlRunner } from "./bear";
+import { tagJoin } from "./bear-schema";
+import { findTags, renderTag, sameTag, tagKey } from "./note-format";
+import { CORE_DATA_EPOCH_OFFSET } from "./notes-query";
+import { headingOf } from "./note-lines";
+import { countChecklist } from "./todos";
+import { parseWikiLinks, resolveWikiLink, titleKey } from "./wiki-links";
+
+// Test-only: a simulated Bear. A BearUrlRunner that, instead of opening the
+// URL, applies the action to a createBearTables fixture database the way Bear
+// would, so a test can send a write and read the result back through the real
+// read path. Not part of the server bundle.
+//
+// It models what the protocol in docs/TEST-PROTOCOL.md checks, and no more:
+// the title is the first line (minus a heading marker), tags are the `#tag`,
+// `#nested/tag` and `#multi word#` tokens in the text, the todo counters count
+// its checklist items, wiki links are indexed in ZSFNOTEBACKLINK, and every
+// write re-derives all four from the new text. What it cannot model is
+// everything that protocol exists for -- whether real Bear agrees -- so a
+// green run here is still only the fixture agreeing with itself.
+
+// Bear's title is the first line, with a heading marker stripped.
+export const titleOf = (text: string): string =>
+  (text.split("\n", 1)[0] ?? "").replace(/^#{1,6}\s+/, "").trim();
+
+const coreDataNow = (): number => Date.now() / 1000 - CORE_DATA_EPOCH_OFFSET;
+
+// Parses a URL built by buildBearUrl. Decoded by hand rather than through
+// URLSearchParams, which would read a literal `+` as a space.
+const parseBearUrl = (url: string): { action: string; params: Record<string, string> } => {
+  const match = /^bear:\/\/x-callback-url\/([^?]+)\?(.*)$/s.exec(url);
+  if (!match) throw new Error(`not a bear://x-callback-url URL: ${url.slice(0, 40)}`);
+
+  const params: Record<string, string> = {};
+  for (const pair of match[2].split("&")) {
+    const separator = pair.indexOf("=");
+    if (separator === -1) continue;
+    params[pair.slice(0, separator)] = decodeURIComponent(pair.slice(separator + 1));
+  }
+  return { action: match[1], params };
+};
+
+interface StoredNote {
+  pk: number;
+  text: string;
+}
+
+const findNote = (db: Database, id: string | undefined): StoredNote | undefined => {
+  if (id === undefined) return undefined;
+  const row = db.prepare("SELECT Z_PK as pk, ZTEXT as text FROM ZSFNOTE WHERE ZUNIQUEIDENTIFIER = ?").get(id) as
+    | { pk: number; text: string | null }
+    | undefined;
+  return row ? { pk: row.pk, text: row.text ?? "" } : undefined;
+};
+
+// Resolves a tag name to its ZSFNOTETAG row, creating one if no spelling of
+// it exists yet. An existing spelling wins, so "Work" written into a note does
+// not fork a second row next to a stored "work".
+const tagPk = (db: Database, name: string): number => {
+  const rows = db.prepare("SELECT Z_PK as pk, ZTITLE as title FROM ZSFNOTETAG").all() as {
+    pk: number;
+    title: string | null;
+  }[];
+  const existing = rows.find(row => row.title != null && tagKey(row.title) === tagKey(name));
+  if (existing) return existing.pk;
+  return Number(db.prepare("INSERT INTO ZSFNOTETAG (ZTITLE) VALUES (?)").run(name).lastInsertRowid);
+};
+
+// Rebuilds the link index from every note's body. A link is indexed against
+// every untrashed note holding its title: which one Bear picks among several
+// is not something the simulator can know.
+const indexLinks = (db: Database): void => {
+  const notes = db
+    .prepare("SELECT Z_PK as pk, ZTITLE as title, ZTEXT as text, ZTRASHED as trashed FROM ZSFNOTE")
+    .all() as { pk: number; title: string | null; text: string | null; trashed: number | null }[];
+  const byTitle = new Map<string, number[]>();
+  for (const note of notes) {
+    if (note.trashed === 1 || !note.title) continue;
+    const key = titleKey(note.title);
+    byTitle.set(key, [...(byTitle.get(key) ?? []), note.pk]);
+  }
+  const lookup = (key: string) => byTitle.get(key) ?? [];
+
+  db.run("DELETE FROM ZSFNOTEBACKLINK");
+  const insert = db.prepare("INSERT INTO ZSFNOTEBACKLINK (ZLINKEDBY, ZLINKINGTO) VALUES (?, ?)");
+  for (const note of notes) {
+    for (const link of parseWikiLinks(note.text ?? "")) {
+      for (const target of resolveWikiLink(link.target, lookup).matches) insert.run(note.pk, target);
+    }
+  }
+};
+
+// Writes a note's text and re-derives everything Bear derives from it.
+const storeText = (db: Database, pk: number, text: string): void => {
+  const todos = countChecklist(text);
+  db.prepare(
+    `UPDATE ZSFNOTE SET ZTEXT = ?, ZTITLE = ?, ZMODIFICATIONDATE = ?, ZTODOINCOMPLETED = ?, ZTODOCOMPLETED = ?
+     WHERE Z_PK = ?`
+  ).run(text, titleOf(text), coreDataNow(), todos.open, todos.done, pk);
+
+  const join = tagJoin(db);
+  db.prepare(`DELETE FROM ${join.table} WHERE ${join.noteColumn} = ?`).run(pk);
+  const linked = new Set<number>();
+  for (const token of findTags(text)) {
+    const tag = tagPk(db, token.name);
+    if (linked.has(tag)) continue;
+    linked.add(tag);
+    db.prepare(`INSERT INTO ${join.table} (${join.noteColumn}, ${join.tagColumn}) VALUES (?, ?)`).run(pk, tag);
+  }
+  indexLinks(db);
+};
+
+// Rewrites every tag token `select` picks, in every note, leaving the rest of
+// the text untouched. `replacement` returns the new token text ("" removes).
+const rewriteTags = (
+  db: Database,
+  select: (name: string) => boolean,
+  replacement: (name: string) => string
+): void => {
+  const notes = db.prepare("SELECT Z_PK as pk, ZTEXT as text FROM ZSFNOTE").all() as { pk: number; text: string | null }[];
+  for (const note of notes) {
+    const text = note.text ?? "";
+    const tokens = findTags(text).filter(token => select(token.name));
+    if (tokens.length === 0) continue;
+
+    let rewritten = text;
+    for (const token of [...tokens].reverse()) {
+      rewritten = rewritten.slice(0, token.start) + replacement(token.name) + rewritten.slice(token.end);
+    }
+    storeText(db, note.pk, rewritten);
+  }
+};
+
+// A nested tag belongs to its parent: renaming `work` renames `work/clients`
+// too, as it does in Bear's sidebar.
+const isTagOrChild = (name: string, parent: string): boolean =>
+  sameTag(name, parent) || tagKey(name).startsWith(`${tagKey(parent)}/`);
+
+const setFlag = (db: Database, column: "ZTRASHED" | "ZARCHIVED", note: StoredNote): void => {
+  const now = coreDataNow();
+  db.prepare(`UPDATE ZSFNOTE SET ${column} = 1, ZMODIFICATIONDATE = ? WHERE Z_PK = ?`).run(now, note.pk);
+  if (column === "ZTRASHED") {
+    db.prepare("UPDATE ZSFNOTE SET ZTRASHEDDATE = ? WHERE Z_PK = ?").run(now, note.pk);
+    indexLinks(db);
+  }
+};
+
+// Bear inserts a prepend below the title, so the title stays the first line.
+const prependBelowTitle = (body: string, text: string): string => {
+  const newline = body.indexOf("\n");
+  if (newline === -1) return `${body}\n${text}`;
+  return `${body.slice(0, newline + 1)}${text}\n${body.slice(newline + 1)}`;
+};
+
+// add-text's `header`: the text goes directly below the first heading with
+// that text, or after the last non-blank line before the next heading. What
+// Bear does with a header it cannot find is not modelled; the simulator
+// refuses it rather than guess.
+const addUnderHeader = (body: string, header: string, text: string, mode: string): string => {
+  const lines = body.split("\n");
+  const start = lines.findIndex((line, index) => index > 0 && headingOf(line)?.text === header);
+  if (start === -1) throw new Error(`the simulator found no header '${header}'`);
+  if (mode === "prepend") {
+    lines.splice(start + 1, 0, text);
+    return lines.join("\n");
+  }
+  const next = lines.findIndex((line, index) => index > start && headingOf(line) !== undefined);
+  let last = next === -1 ? lines.length : next;
+  while (last > start + 1 && !lines[last - 1].trim()) last -= 1;
+  lines.splice(last, 0, text);
+  return lines.join("\n");
+};
+
+const applyAction = (db: Database, action: string, params: Record<string, string>): void => {
+  switch (action) {
+    case "create": {
+      const text = params.text ?? "";
+      const now = coreDataNow();
+      const pk = Number(
+        db
+          .prepare(
+            `INSERT INTO ZSFNOTE (ZUNIQUEIDENTIFIER, ZCREATIONDATE, ZMODIFICATIONDATE, ZTRASHED, ZARCHIVED)
+             VALUES (?, ?, ?, 0, 0)`
+          )
+          .run(crypto.randomUUID().toUpperCase(), now, now).lastInsertRowid
+      );
+      storeText(db, pk, text);
+      return;
+    }
+    case "add-text": {
+      // An unknown id is ignored, as Bear ignores it: no note, no error.
+      const note = findNote(db, params.id);
+      if (!note) return;
+      const text = params.text ?? "";
+      if (params.header !== undefined) {
+        storeText(db, note.pk, addUnderHeader(note.text, params.header, text, params.mode ?? "append"));
+        return;
+      }
+      const modes: Record<string, () => string> = {
+        append: () => `${note.text}\n${text}`,
+        prepend: () => prependBelowTitle(note.text, text),
+        replace_all: () => text,
+        replace: () => `${note.text.split("\n", 1)[0]}\n${text}`,
+      };
+      const apply = modes[params.mode ?? "append"];
+      if (!apply) throw new Error(`the simulator does not know add-text mode '${params.mode}'`);
+      // add-text's `tags` go on a line of their own after the text. Where
+      // real Bear puts them is not modelled, only that the note then has them.
+      const tagLine = (params.tags ?? "")
+        .split(",")
+        .flatMap(tag => renderTag(tag) ?? [])
+        .join(" ");
+      storeText(db, note.pk, tagLine ? `${apply().replace(/\n+$/, "")}\n${tagLine}` : apply());
+      return;
+    }
+    case "trash":
+    case "archive": {
+      const note = findNote(db, params.id);
+      if (note) setFlag(db, action === "trash" ? "ZTRASHED" : "ZARCHIVED", note);
+      return;
+    }
+    case "rename-tag": {
+      const { name, new_name: newName } = params;
+      rewriteTags(
+        db,
+        tag => isTagOrChild(tag, name),
+        tag => renderTag(`${newName}${tag.slice(name.length)}`) ?? ""
+      );
+      return;
+    }
+    case "delete-tag": {
+      rewriteTags(db, tag => sameTag(tag, params.name), () => "");
+      return;
+    }
+    default:
+      throw new Error(`the simulator does not know the Bear action '${action}'`);
+  }
+};
+
+// The runner. Every URL it was handed is recorded on `urls`, in order, so a
+// test can still assert on what was sent as well as on what it did.
+export const createBearSimulator = (db: Database): BearUrlRunner & { urls: string[] } => {
+  const urls: string[] = [];
+  const runner = async (url: string) => {
+    urls.push(url);
+    const { action, params } = parseBearUrl(url);
+    applyAction(db, action, params);
+    return { ok: true as const };
+  };
+  return Object.assign(runner, { urls });
+};
@@ -1,4 +1,5 @@
 import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
 import {
   setBearUrlRunner,
   resetBearUrlRunner,
@@ -10,8 +11,19 @@ import {
   archiveNote,
   renameTag,
   deleteTag,
+  setTodo,
+  addToSection,
+  replaceSection,
+  editNote,
+  previewBulkReplace,
+  applyBulkReplace,
+  tagNote,
+  untagNote,
+  ConflictError,
   MAX_BEAR_URL_LENGTH,
 } from "./bear";
+import { createBearTables, insertNote, CORE_DATA_2021 } from "./bear-fixture";
+import { CORE_DATA_EPOCH_OFFSET } from "./notes-query";
 
 let captured: string[] = [];
 
@@ -30,6 +42,9 @@ afterEach(() => {
 const url = (action: string, text: string) =>
   `bear://x-callback-url/${action}?${text}`;
 
+// The decoded query parameters of a captured URL.
+const params = (sent: string) => new URLSearchParams(sent.slice(sent.indexOf("?") + 1));
+
 describe("write operations build the expected Bear URL", () => {
   test("createNote bakes the title as H1, prepends tags, and sends no separate title param", async () => {
     await createNote("My Note", "Body text", ["work", "ideas"]);
@@ -182,3 +197,464 @@ describe("the URL size guard", () => {
     expect(caught?.message).not.toContain("private");
   });
 });
+
+describe("confirmed writes", () => {
+  const confirmDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "NOTE-A", title: "Alpha", text: "# Alpha\n#work\n\nbody" });
+    insertNote(db, { pk: 2, id: "NOTE-B", title: "Beta", text: "# Beta\n#work\n\nbody" });
+    db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'work')`);
+    db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 10), (2, 10)`);
+    return db;
+  };
+
+  // Stands in for Bear: a runner that applies a change to the fixture
+  // database, the way Bear would write it some time after `open` returned.
+  const applying = (apply: () => void) =>
+    setBearUrlRunner(async (sent) => {
+      captured.push(sent);
+      apply();
+      return { ok: true };
+    });
+
+  const fast = { confirm: true, timeoutMs: 50, intervalMs: 5 };
+
+  test("without confirm, a write neither reads the database nor returns a confirmation", async () => {
+    let opened = 0;
+    const result = await appendToNote("NOTE-A", "more", {}, () => {
+      opened += 1;
+      return confirmDb();
+    });
+    expect(result).toBeUndefined();
+    expect(opened).toBe(0);
+  });
+
+  test("an append that lands is confirmed", async () => {
+    const db = confirmDb();
+    applying(() => db.run(`UPDATE ZSFNOTE SET ZTEXT = ZTEXT || '\nmore text' WHERE Z_PK = 1`));
+    const result = await appendToNote("NOTE-A", "more text", fast, () => db);
+    expect(result?.status).toBe("confirmed");
+    expect(captured).toHaveLength(1);
+  });
+
+  test("a write Bear never applies is not observed once the timeout passes", async () => {
+    const db = confirmDb();
+    const result = await prependToNote("NOTE-A", "intro", fast, () => db);
+    expect(result?.status).toBe("not-observed");
+    expect(result?.waitedMs).toBeGreaterThanOrEqual(fast.timeoutMs);
+  });
+
+  test("a change that shows up only after a few polls is still confirmed", async () => {
+    const db = confirmDb();
+    setTimeout(() => db.run(`UPDATE ZSFNOTE SET ZTRASHED = 1 WHERE Z_PK = 1`), 20);
+    const result = await trashNote("NOTE-A", { confirm: true, timeoutMs: 500, intervalMs: 5 }, () => db);
+    expect(result?.status).toBe("confirmed");
+  });
+
+  test("a replace that leaves different text behind is contradicted", async () => {
+    const db = confirmDb();
+    applying(() => db.run(`UPDATE ZSFNOTE SET ZTEXT = 'something else' WHERE Z_PK = 1`));
+    const result = await replaceNoteContent("NOTE-A", "Alpha", "new body", ["work"], fast, () => db);
+    expect(result?.status).toBe("contradicted");
+    expect(result?.reason).toMatch(/not to the sent text/);
+  });
+
+  test("a replace is confirmed when the body matches the rendered markdown", async () => {
+    const db = confirmDb();
+    applying(() => db.run(`UPDATE ZSFNOTE SET ZTEXT = '# Alpha\n#work\n\nnew body\n' WHERE Z_PK = 1`));
+    const result = await replaceNoteContent("NOTE-A", "Alpha", "new body", ["work"], fast, () => db);
+    expect(result?.status).toBe("confirmed");
+  });
+
+  test("a write to an unknown note id is contradicted without waiting out the timeout", async () => {
+    const db = confirmDb();
+    const result = await archiveNote("NO-SUCH-NOTE", { confirm: true, timeoutMs: 5000, intervalMs: 5 }, () => db);
+    expect(result?.status).toBe("contradicted");
+    expect(result?.reason).toContain("NO-SUCH-NOTE");
+    expect(result?.waitedMs).toBeLessThan(5000);
+  });
+
+  test("a tag rename is confirmed once every carrier has the new name", async () => {
+    const db = confirmDb();
+    applying(() => db.run(`UPDATE ZSFNOTETAG SET ZTITLE = 'job' WHERE Z_PK = 10`));
+    const result = await renameTag("#work", "job", fast, () => db);
+    expect(result?.status).toBe("confirmed");
+  });
+
+  test("a case-only tag rename is observable, not confirmed up front", async () => {
+    const db = confirmDb();
+    expect((await renameTag("work", "Work", fast, () => db))?.status).toBe("not-observed");
+
+    applying(() => db.run(`UPDATE ZSFNOTETAG SET ZTITLE = 'Work' WHERE Z_PK = 10`));
+    expect((await renameTag("work", "Work", fast, () => db))?.status).toBe("confirmed");
+  });
+
+  test("a tag delete is confirmed once no live note carries the tag", async () => {
+    const db = confirmDb();
+    applying(() => db.run(`DELETE FROM Z_5TAGS WHERE Z_13TAGS = 10`));
+    const result = await deleteTag("work", fast, () => db);
+    expect(result?.status).toBe("confirmed");
+  });
+
+  test("deleting a tag no live note carries is contradicted", async () => {
+    const db = confirmDb();
+    const result = await deleteTag("nonexistent", fast, () => db);
+    expect(result?.status).toBe("contradicted");
+    expect(captured).toHaveLength(1);
+  });
+
+  test("the baseline is read before the URL is sent", async () => {
+    const db = confirmDb();
+    // A runner that applies the change synchronously: were the baseline read
+    // afterwards, the appended body would be its own baseline and the write
+    // would look like it was still pending.
+    applying(() => db.run(`UPDATE ZSFNOTE SET ZTEXT = ZTEXT || '\nappended' WHERE Z_PK = 2`));
+    const result = await appendToNote("NOTE-B", "appended", fast, () => db);
+    expect(result?.status).toBe("confirmed");
+    expect(result?.waitedMs).toBeLessThan(fast.timeoutMs);
+  });
+
+  describe("createNote finds the note Bear created", () => {
+    const coreDataNow = () => Date.now() / 1000 - CORE_DATA_EPOCH_OFFSET;
+    const insertFresh = (db: Database, pk: number, id: string, title: string) =>
+      insertNote(db, { pk, id, title, createdAt: coreDataNow(), modifiedAt: coreDataNow() });
+
+    test("a new row with the title is confirmed and carries its id", async () => {
+      const db = confirmDb();
+      applying(() => insertFresh(db, 3, "NEW-ID", "Fresh"));
+      const result = await createNote("Fresh", "body", [], fast, () => db);
+      expect(result?.status).toBe("confirmed");
+      expect(result?.noteId).toBe("NEW-ID");
+    });
+
+    test("a note that already had the title is not mistaken for the new one", async () => {
+      const db = confirmDb();
+      insertFresh(db, 3, "OLD-ID", "Fresh");
+      const result = await createNote("Fresh", "body", [], fast, () => db);
+      expect(result?.status).toBe("not-observed");
+      expect(result?.noteId).toBeUndefined();
+    });
+
+    test("two new notes with the title are reported as ambiguous, with both ids", async () => {
+      const db = confirmDb();
+      applying(() => {
+        insertFresh(db, 3, "NEW-1", "Fresh");
+        insertFresh(db, 4, "NEW-2", "Fresh");
+      });
+      const result = await createNote("Fresh", "body", [], fast, () => db);
+      expect(result?.status).toBe("contradicted");
+      expect(result?.reason).toContain("NEW-1");
+      expect(result?.reason).toContain("NEW-2");
+    });
+
+    test("an old note with the title but a stale creation date is ignored", async () => {
+      const db = confirmDb();
+      applying(() => insertNote(db, { pk: 3, id: "SYNCED", title: "Fresh" }));
+      expect((await createNote("Fresh", "body", [], fast, () => db))?.status).toBe("not-observed");
+    });
+  });
+});
+
+describe("setTodo", () => {
+  const todoDb = (text: string): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "NOTE-T", title: "Plan", text });
+    return db;
+  };
+
+  test("sends the edited body below the title with mode=replace, so the title is never re-sent", async () => {
+    const db = todoDb("# Plan\n#work\n- [ ] ship\n- [ ] test");
+    const result = await setTodo("NOTE-T", { line: 4, text: "test" }, true, {}, () => db);
+    expect(result.sent).toBe(true);
+    expect(captured).toHaveLength(1);
+    const sent = params(captured[0]);
+    expect(sent.get("mode")).toBe("replace");
+    expect(sent.get("text")).toBe("#work\n- [ ] ship\n- [x] test");
+  });
+
+  test("an item on the first line goes through replace_all, the one mode that can change it", async () => {
+    const db = todoDb("- [ ] the whole note\nbody");
+    await setTodo("NOTE-T", { line: 1, text: "the whole note" }, true, {}, () => db);
+    expect(params(captured[0]).get("mode")).toBe("replace_all");
+    expect(params(captured[0]).get("text")).toBe("- [x] the whole note\nbody");
+  });
+
+  test("sends nothing when the item is already in the asked state", async () => {
+    const db = todoDb("# Plan\n- [x] ship");
+    expect(await setTodo("NOTE-T", { line: 2, text: "ship" }, true, {}, () => db)).toEqual({ sent: false });
+    expect(captured).toHaveLength(0);
+  });
+
+  test("sends nothing when the note changed since the locator was issued", async () => {
+    const db = todoDb("# Plan\n- [ ] new item\n- [ ] ship");
+    await expect(setTodo("NOTE-T", { line: 2, text: "ship" }, true, {}, () => db)).rejects.toThrow("now on line 3");
+    expect(captured).toHaveLength(0);
+  });
+
+  test("sends nothing for an unknown note", async () => {
+    const db = todoDb("# Plan");
+    await expect(setTodo("NO-SUCH", { line: 2, text: "ship" }, true, {}, () => db)).rejects.toThrow("no note with id");
+    expect(captured).toHaveLength(0);
+  });
+});
+
+describe("section writes", () => {
+  const sectionDb = (text: string): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "NOTE-S", title: "Log", text });
+    return db;
+  };
+
+  test("uses add-text's header when Bear would find the same heading", async () => {
+    const db = sectionDb("# Log\n## Decisions\n- one\n## Notes");
+    await addToSection("NOTE-S", "Decisions", "- two", "append", {}, () => db);
+    const sent = params(captured[0]);
+    expect(sent.get("mode")).toBe("append");
+    expect(sent.get("header")).toBe("Decisions");
+    expect(sent.get("text")).toBe("- two");
+  });
+
+  test("falls back to sending the edited body with mode=replace, keeping the title out of it", async () => {
+    const db = sectionDb("# Log\n## Q3\n### Risks\nbudget\n## Q4\n### Risks\nhiring");
+    await addToSection("NOTE-S", "Q4/Risks", "- churn", "append", {}, () => db);
+    const sent = params(captured[0]);
+    expect(sent.get("mode")).toBe("replace");
+    expect(sent.has("header")).toBe(false);
+    expect(sent.get("text")).toBe("## Q3\n### Risks\nbudget\n## Q4\n### Risks\nhiring\n- churn");
+  });
+
+  test("replaceSection sends the body with only that section changed", async () => {
+    const db = sectionDb("# Log\n## Decisions\n- one\n\n## Notes\nkeep");
+    const result = await replaceSection("NOTE-S", "decisions", "- final", {}, () => db);
+    expect(result.sent).toBe(true);
+    expect(params(captured[0]).get("mode")).toBe("replace");
+    expect(params(captured[0]).get("text")).toBe("## Decisions\n- final\n\n## Notes\nkeep");
+  });
+
+  test("replaceSection sends nothing when the section already says that", async () => {
+    const db = sectionDb("# Log\n## Decisions\n- one");
+    expect(await replaceSection("NOTE-S", "Decisions", "- one", {}, () => db)).toEqual({ sent: false });
+    expect(captured).toHaveLength(0);
+  });
+
+  test("sends nothing for a heading that is missing or ambiguous", async () => {
+    const db = sectionDb("# Log\n## A\n### Risks\n## B\n### Risks");
+    await expect(addToSection("NOTE-S", "Risks", "x", "prepend", {}, () => db)).rejects.toThrow("ambiguous");
+    await expect(replaceSection("NOTE-S", "Nope", "x", {}, () => db)).rejects.toThrow('No heading "Nope"');
+    expect(captured).toHaveLength(0);
+  });
+
+  test("the URL length guard still applies to a read-modify-write", async () => {
+    const db = sectionDb("# Log\n## Decisions\n- one");
+    const huge = "x".repeat(MAX_BEAR_URL_LENGTH);
+    await expect(replaceSection("NOTE-S", "Decisions", huge, {}, () => db)).rejects.toThrow("character limit");
+    expect(captured).toHaveLength(0);
+  });
+});
+
+describe("expectedModifiedAt", () => {
+  const noteDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "NOTE-M", title: "Plan", text: "# Plan\n- [ ] ship" });
+    return db;
+  };
+
+  test("sends when the note is as the caller read it, in any spelling of that instant", async () => {
+    const db = noteDb();
+    await replaceNoteContent("NOTE-M", "Plan", "new", undefined, { expectedModifiedAt: "2021-01-01T00:00:00Z" }, () => db);
+    await setTodo("NOTE-M", { line: 2, text: "ship" }, true, { expectedModifiedAt: "2021-01-01T00:00:00.000Z" }, () => db);
+    expect(captured).toHaveLength(2);
+  });
+
+  test("refuses a note edited since, naming both timestamps, and sends nothing", async () => {
+    const db = noteDb();
+    db.run(`UPDATE ZSFNOTE SET ZMODIFICATIONDATE = ${CORE_DATA_2021} + 90`);
+    const write = replaceNoteContent("NOTE-M", "Plan", "new", undefined, { expectedModifiedAt: "2021-01-01T00:00:00Z" }, () => db);
+    await expect(write).rejects.toThrow(ConflictError);
+    await expect(
+      setTodo("NOTE-M", { line: 2, text: "ship" }, true, { expectedModifiedAt: "2021-01-01T00:00:00Z" }, () => db)
+    ).rejects.toThrow("expected modifiedAt 2021-01-01T00:00:00Z, but Bear's database has 2021-01-01T00:01:30Z");
+    expect(captured).toHaveLength(0);
+  });
+
+  test("refuses an unknown note instead of sending blind", async () => {
+    const write = trashNote("NO-SUCH", { expectedModifiedAt: "2021-01-01T00:00:00Z" }, () => noteDb());
+    await expect(write).rejects.toThrow("no note with id NO-SUCH");
+    expect(captured).toHaveLength(0);
+  });
+});
+
+describe("editNote", () => {
+  const editDb = (text: string): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "NOTE-E", title: "Plan", text });
+    return db;
+  };
+
+  test("sends the edited body below the title and returns the diff", async () => {
+    const db = editDb("# Plan\nteh typo");
+    const result = await editNote("NOTE-E", [{ find: "teh", replace: "the" }], {}, {}, () => db);
+    expect(params(captured[0]).get("mode")).toBe("replace");
+    expect(params(captured[0]).get("text")).toBe("the typo");
+    expect(result.diff).toBe("--- a/NOTE-E\n+++ b/NOTE-E\n@@ -1,2 +1,2 @@\n # Plan\n-teh typo\n+the typo");
+  });
+
+  test("an edit to the title line goes through replace_all", async () => {
+    const db = editDb("# Plan\nbody");
+    await editNote("NOTE-E", [{ find: "# Plan", replace: "# Roadmap" }], {}, {}, () => db);
+    expect(params(captured[0]).get("mode")).toBe("replace_all");
+    expect(params(captured[0]).get("text")).toBe("# Roadmap\nbody");
+  });
+
+  test("refuses edits that blank the title, or that cannot be placed, without sending", async () => {
+    const db = editDb("# Plan\nbeta beta");
+    await expect(editNote("NOTE-E", [{ find: "# Plan", replace: "" }], {}, {}, () => db)).rejects.toThrow("title");
+    await expect(editNote("NOTE-E", [{ find: "beta", replace: "GA" }], {}, {}, () => db)).rejects.toThrow("ambiguous");
+    expect(captured).toHaveLength(0);
+  });
+
+  test("sends nothing when the edits change nothing", async () => {
+    const db = editDb("# Plan\nbody");
+    expect(await editNote("NOTE-E", [{ find: "body", replace: "body" }], {}, {}, () => db)).toEqual({ sent: false, diff: "" });
+    expect(captured).toHaveLength(0);
+  });
+});
+
+describe("bulk replace", () => {
+  const libraryDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "B-1", title: "Falcon plan", text: "# Falcon plan\nFalcon ships. falcon too.", modifiedAt: CORE_DATA_2021 + 1 });
+    insertNote(db, { pk: 2, id: "B-2", title: "Notes", text: "# Notes\nAbout Falcon", modifiedAt: CORE_DATA_2021 + 2 });
+    insertNote(db, { pk: 3, id: "B-3", title: "Other", text: "# Other\nnothing here", modifiedAt: CORE_DATA_2021 + 3 });
+    insertNote(db, { pk: 4, id: "B-4", title: "Binned", text: "# Binned\nFalcon", modifiedAt: CORE_DATA_2021 + 4, trashed: 1 });
+    db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'work')`);
+    db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (2, 10)`);
+    return db;
+  };
+
+  test("a preview lists each live note that would change, with a diff, and sends nothing", () => {
+    const preview = previewBulkReplace("Falcon", "Osprey", {}, libraryDb());
+    expect(preview.notes.map(note => [note.noteId, note.replacements])).toEqual([
+      ["B-2", 1],
+      ["B-1", 2],
+    ]);
+    expect(preview.totalNotes).toBe(2);
+    expect(preview.totalReplacements).toBe(3);
+    expect(preview.notes[0].diff).toContain("-About Falcon\n+About Osprey");
+    expect(preview.token).toMatch(/^[0-9a-f]{16}$/);
+    expect(captured).toHaveLength(0);
+  });
+
+  test("scopes by tag and term, folds on request, and pages without changing the totals", () => {
+    const db = libraryDb();
+    expect(previewBulkReplace("Falcon", "Osprey", { tag: "work" }, db).notes.map(note => note.noteId)).toEqual(["B-2"]);
+    expect(previewBulkReplace("Falcon", "Osprey", { term: "ships" }, db).totalNotes).toBe(1);
+    expect(previewBulkReplace("falcon", "osprey", { folded: true }, db).totalReplacements).toBe(4);
+    const page = previewBulkReplace("Falcon", "Osprey", { limit: 1, offset: 1 }, db);
+    expect(page.notes.map(note => note.noteId)).toEqual(["B-1"]);
+    expect(page.totalNotes).toBe(2);
+    expect(page.token).toBe(previewBulkReplace("Falcon", "Osprey", {}, db).token);
+  });
+
+  test("applying the preview's token writes each note in turn, below its title", async () => {
+    const db = libraryDb();
+    const { token } = previewBulkReplace("Falcon", "Osprey", {}, db);
+    const result = await applyBulkReplace("Falcon", "Osprey", token, {}, {}, () => db);
+    expect(result).toEqual({
+      results: [
+        { noteId: "B-2", title: "Notes", replacements: 1, status: "sent" },
+        { noteId: "B-1", title: "Falcon plan", replacements: 2, status: "sent" },
+      ],
+      written: 2,
+      failed: 0,
+      skipped: 0,
+    });
+    expect(captured.map(url => [params(url).get("id"), params(url).get("mode"), params(url).get("text")])).toEqual([
+      ["B-2", "replace", "About Osprey"],
+      ["B-1", "replace_all", "# Osprey plan\nOsprey ships. falcon too."],
+    ]);
+  });
+
+  test("refuses a token the notes no longer match, sending nothing", async () => {
+    const db = libraryDb();
+    const { token } = previewBulkReplace("Falcon", "Osprey", {}, db);
+    db.run("UPDATE ZSFNOTE SET ZTEXT = ZTEXT || ' Falcon' WHERE Z_PK = 3");
+    await expect(applyBulkReplace("Falcon", "Osprey", token, {}, {}, () => db)).rejects.toThrow(ConflictError);
+    await expect(applyBulkReplace("Falcon", "Osprey", "0000", {}, {}, () => db)).rejects.toThrow("preview again");
+    expect(captured).toHaveLength(0);
+  });
+
+  test("reports a failed note and, with stopOnFailure, skips the rest", async () => {
+    const db = libraryDb();
+    const { token } = previewBulkReplace("Falcon", "Osprey", {}, db);
+    setBearUrlRunner(async () => ({ ok: false, reason: "simulated failure" }));
+
+    const carryOn = await applyBulkReplace("Falcon", "Osprey", token, {}, {}, () => db);
+    expect(carryOn.results.map(result => result.status)).toEqual(["failed", "failed"]);
+    expect(carryOn.results[0].reason).toContain("simulated failure");
+
+    const stopped = await applyBulkReplace("Falcon", "Osprey", token, { stopOnFailure: true }, {}, () => db);
+    expect(stopped.results.map(result => result.status)).toEqual(["failed", "skipped"]);
+    expect(stopped).toMatchObject({ written: 0, failed: 1, skipped: 1 });
+  });
+});
+
+describe("tagging one note", () => {
+  // The stored tags are `work` and `my tag`, and the text carries both.
+  const taggedDb = (): Database => {
+    const db = new Database(":memory:");
+    createBearTables(db);
+    insertNote(db, { pk: 1, id: "NOTE-T", title: "Plan", text: "# Plan\n#work #my tag# #work/clients\nbody" });
+    db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'work'), (11, 'my tag'), (12, 'work/clients')`);
+    db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 10), (1, 11), (1, 12)`);
+    return db;
+  };
+
+  test("tagNote sends only the tags the note lacks, through add-text's tags, and no text", async () => {
+    const db = taggedDb();
+    const result = await tagNote("NOTE-T", ["#Work", "home", "new idea"], {}, () => db);
+    expect(captured[0]).toStartWith("bear://x-callback-url/add-text?");
+    expect(params(captured[0]).get("tags")).toBe("home,new idea");
+    expect(params(captured[0]).get("text")).toBe("");
+    expect(result.tagsBefore).toEqual(["my tag", "work", "work/clients"]);
+  });
+
+  test("tagNote sends nothing when the note already has every tag", async () => {
+    const db = taggedDb();
+    const result = await tagNote("NOTE-T", ["WORK", "#my tag#"], {}, () => db);
+    expect(result.sent).toBe(false);
+    expect(result.tagsAfter).toEqual(result.tagsBefore);
+    expect(captured).toHaveLength(0);
+  });
+
+  test("tagNote refuses a comma, which Bear would read as two tags", async () => {
+    await expect(tagNote("NOTE-T", ["a,b"], {}, () => taggedDb())).rejects.toThrow("commas");
+    expect(captured).toHaveLength(0);
+  });
+
+  test("untagNote sends the body with the tags taken out, keeping nested tags below them", async () => {
+    const db = taggedDb();
+    const result = await untagNote("NOTE-T", ["work", "my tag"], {}, () => db);
+    expect(params(captured[0]).get("mode")).toBe("replace");
+    expect(params(captured[0]).get("text")).toBe("#work/clients\nbody");
+    expect(result.sent).toBe(true);
+  });
+
+  test("untagNote sends nothing when none of the tags is in the text", async () => {
+    const db = taggedDb();
+    expect((await untagNote("NOTE-T", ["home"], {}, () => db)).sent).toBe(false);
+    expect(captured).toHaveLength(0);
+  });
+
+  test("both refuse an unknown note without sending", async () => {
+    await expect(tagNote("NO-SUCH", ["home"], {}, () => taggedDb())).rejects.toThrow("no note with id NO-SUCH");
+    await expect(untagNote("NO-SUCH", ["work"], {}, () => taggedDb())).rejects.toThrow("no note with id NO-SUCH");
+    expect(captured).toHaveLength(0);
+  });
+});
@@ -1,12 +1,80 @@
 import type { Database } from "bun:sqlite";
 import { execFile } from "child_process";
+import { createHash } from "crypto";
+import { readFileSync, statSync } from "fs";
 import { promisify } from "util";
-import { getDatabase, DatabaseError } from "./database.js";
-import { renderNoteMarkdown, buildBearUrl, normalizeTagName, tagKey, sameTag } from "./note-format.js";
-import { tagJoin, joinTagsFromNote } from "./bear-schema.js";
-import { containsFolded } from "./text-match.js";
+import { getDatabase, DatabaseError, attachmentPath, type AttachmentKind } from "./database.js";
+import {
+  renderNoteMarkdown,
+  buildBearUrl,
+  normalizeTagName,
+  tagKey,
+  sameTag,
+  isTagOrDescendant,
+  removeTagFromText,
+} from "./note-format.js";
+import {
+  tagJoin,
+  joinTagsFromNote,
+  hasNoteColumn,
+  hasBacklinkTable,
+  hasFileTable,
+  hasFileColumn,
+} from "./bear-schema.js";
+import { mediaTypeOf, attachmentKind, MAX_ATTACHMENT_BYTES } from "./attachments.js";
+import { containsFolded, foldForMatch } from "./text-match.js";
+import {
+  parseQuery,
+  matchesQuery,
+  someNode,
+  positiveTextTerms,
+  positiveScopes,
+  type QueryNode,
+  type QueryScope,
+} from "./search-query.js";
+import { refreshSearchIndex, matchingNotePks } from "./search-index.js";
+import { resolveDateRange, dateRangeClauses, type DateRangeOptions, type DateBounds } from "./date-range.js";
+import { documentStats, scoreDocuments, type DocumentStats } from "./relevance.js";
+import { parseChecklist, setChecklistItem, type ChecklistItem, type ItemLocator } from "./todos.js";
+import { parseWikiLinks, resolveWikiLink, titleKey } from "./wiki-links.js";
+import { applyEdits, replaceAllMatches, EditError, type TextEdit, type MatchOptions } from "./note-edit.js";
+import { unifiedDiff } from "./diff.js";
+import {
+  parseOutline,
+  findSection,
+  insertIntoSection,
+  replaceSectionBody,
+  bearHeader,
+  type OutlineHeading,
+  type Section,
+  type SectionPosition,
+} from "./outline.js";
+import {
+  buildSnippets,
+  DEFAULT_SNIPPET_LENGTH,
+  MAX_SNIPPETS,
+  MIN_SNIPPET_LENGTH,
+  MAX_SNIPPET_LENGTH,
+  type SnippetOptions,
+} from "./snippets.js";
+import {
+  expectCreated,
+  expectAppended,
+  expectPrepended,
+  expectReplaced,
+  expectTrashed,
+  expectArchived,
+  expectTagRenamed,
+  expectTagDeleted,
+  expectTagsAdded,
+  pollForWrite,
+  type WriteCheck,
+  type WriteConfirmation,
+  type ConfirmStatus,
+} from "./write-confirm.js";
 import {
   timestampColumns,
+  isoTimestamp,
   liveNotesFilter,
   addressableFilter,
   toNote,
@@ -24,6 +92,38 @@ export interface Note {
   modifiedAt?: string;
   isTrashed?: boolean;
   isArchived?: boolean;
+  // Absent when the database predates Bear's pinning, which has no column
+  // to read it from.
+  isPinned?: boolean;
+  // When the note was moved to the trash, on bear_list_trashed results from a
+  // database that records it.
+  trashedAt?: string;
+  // Only on results ranked with order: "relevance". Higher is better; the
+  // number is comparable within one search, not across searches.
+  score?: number;
+  // Only when snippets were asked for: excerpts of the body around the term's
+  // matches, each match wrapped in « ».
+  snippets?: string[];
+  // Only on bear_get_note, from a database that records attachments.
+  attachments?: Attachment[];
+}
+
+// An image or file attached to a note. The body shows only a marker where it
+// sits; this is what the marker stands for.
+export interface Attachment {
+  // What bear_get_attachment takes.
+  id: string;
+  filename: string;
+  type: AttachmentKind;
+  mediaType: string;
+  // In bytes, as Bear recorded it.
+  size?: number;
+  // Images only, in pixels.
+  width?: number;
+  height?: number;
+  // Inside Bear's container. Absent when the database is not a file on disk,
+  // since the attachments are found relative to it.
+  path?: string;
 }
 
 export interface Tag {
@@ -31,6 +131,19 @@ export interface Tag {
   noteCount: number;
 }
 
+// One node of the nested-tag tree. `noteCount` counts notes carrying exactly
+// this tag; `totalNoteCount` counts notes carrying it or any tag below it,
+// each note once however many of those tags it has.
+export interface TagTreeNode {
+  // The last path segment, as displayed in Bear's sidebar.
+  name: string;
+  // The full tag, usable as-is with bear_list_by_tag.
+  path: string;
+  noteCount: number;
+  totalNoteCount: number;
+  children: TagTreeNode[];
+}
+
 // One page of notes. `count` is the size of *this page* and never a total,
 // which is why `hasMore` travels with it: a bare count of 100 reads as "there
 // are 100 such notes" when it may mean "there are at least 100".
@@ -47,11 +160,161 @@ export interface PageOptions {
   offset?: number;
 }
 
-export interface SearchOptions extends PageOptions {
+export type SortField = "modified" | "created" | "title";
+export type SortDirection = "asc" | "desc";
+
+export interface SortOptions {
+  // "modified" (the default), "created" or "title".
+  sort?: SortField;
+  // Defaults to newest first for the dates and A to Z for the title.
+  direction?: SortDirection;
+  // Pinned notes first, as Bear's own note list has them, then the sort
+  // above within each group.
+  pinnedFirst?: boolean;
+}
+
+// What the list tools share: paging, date ranges and sorting.
+export type ListOptions = PageOptions & DateRangeOptions & SortOptions;
+
+export interface SearchOptions extends PageOptions, DateRangeOptions, SortOptions {
+  // A literal, case-folded substring of the title or body.
+  term?: string;
+  tag?: string;
+  // Notes must carry every tag in tagsAll, at least one in tagsAny and none
+  // in tagsNone. All three intersect with `tag`.
+  tagsAll?: string[];
+  tagsAny?: string[];
+  tagsNone?: string[];
+  // Also match notes tagged only with a tag nested below the ones named in
+  // `tag` and the three lists.
+  includeDescendants?: boolean;
+  // The query language in search-query.ts. Intersects with term and tag.
+  query?: string;
+  // Only pinned notes (true) or only unpinned ones (false).
+  pinned?: boolean;
+  // "modified" (the default) orders as `sort` and `direction` say, which is
+  // most recently modified first unless they say otherwise; "relevance" ranks
+  // by how well the note matches term and query text, and uses the sort
+  // order only to break ties.
+  order?: SearchOrder;
+  // Up to this many body excerpts per note around matches of `term`. Zero or
+  // unset returns none.
+  snippets?: number;
+  // Characters of context around each match in a snippet.
+  snippetLength?: number;
+}
+
+// "open" (the default) for unchecked items, "done" for checked ones, "all"
+// for both.
+export type TodoState = "open" | "done" | "all";
+
+export interface TodoOptions extends PageOptions {
+  tag?: string;
+  includeDescendants?: boolean;
+  // A literal, case-folded substring of the item's own text.
   term?: string;
+  state?: TodoState;
+}
+
+// A checklist item and the note it sits in.
+export interface Todo extends ChecklistItem {
+  noteId: string;
+  noteTitle: string;
+  // The note's modifiedAt, to pass to bear_set_todo as expectedModifiedAt.
+  noteModifiedAt?: string;
+}
+
+// How a wiki link's title resolved among the live notes: to one note, to
+// several that share the title, or to none.
+export type LinkStatus = "resolved" | "ambiguous" | "missing";
+
+export interface OutgoingLink {
+  line: number;
+  // The link as written between the brackets.
+  target: string;
+  // The target read as a title and, for `[[Title/Heading]]`, a heading.
+  title: string;
+  heading?: string;
+  status: LinkStatus;
+  // The live notes holding the title: one when resolved, several when
+  // ambiguous, none when missing.
+  noteIds: string[];
+}
+
+export interface Backlink {
+  noteId: string;
+  title: string;
+  line: number;
+  // The linking line, trimmed.
+  context: string;
+}
+
+export interface NoteLinks {
+  noteId: string;
+  title: string;
+  outgoing: OutgoingLink[];
+  backlinks: Backlink[];
+}
+
+// What is wrong with a wiki link: its title names no note, several live
+// notes, or only notes in the trash or the archive.
+export type LinkProblem = "missing" | "ambiguous" | "trashed" | "archived";
+
+export interface BrokenLink {
+  line: number;
+  target: string;
+  title: string;
+  heading?: string;
+  problem: LinkProblem;
+  // The notes the title does match: the live ones when ambiguous, the
+  // trashed or archived ones otherwise. Empty when missing.
+  noteIds: string[];
+}
+
+// One source note and its broken links, in body order.
+export interface LinkCheck {
+  noteId: string;
+  title: string;
+  links: BrokenLink[];
+}
+
+export interface LinkCheckOptions extends PageOptions {
+  // Only check the notes with this tag.
   tag?: string;
+  includeDescendants?: boolean;
+}
+
+// One page of source notes, with the same `count` / `hasMore` contract as
+// NotePage.
+export interface LinkCheckPage {
+  notes: LinkCheck[];
+  count: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export interface NoteOutline {
+  noteId: string;
+  title: string;
+  // Characters in the whole body, to set the sections' sizes against.
+  chars: number;
+  headings: OutlineHeading[];
+}
+
+export type NoteSection = Section & { noteId: string; title: string };
+
+// One page of todos, with the same `count` / `hasMore` contract as NotePage.
+export interface TodoPage {
+  todos: Todo[];
+  count: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
 }
 
+export type SearchOrder = "modified" | "relevance";
+
 // Page size when the caller asked a question (a term or a tag).
 export const DEFAULT_LIMIT = 100;
 // Page size for the "recent notes" browse view, which is a glance at the top
@@ -67,6 +330,15 @@ export class BearError extends Error {
   }
 }
 
+// A write refused because the note changed after the caller read it: sending
+// it would overwrite those changes. Nothing was sent.
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
 // ============================================================================
 // WRITE OPERATIONS (via URL scheme - safe)
 // ============================================================================
@@ -148,37 +420,586 @@ const callBear = async (action: string, params: Record<string, string>): Promise
   }
 };
 
-export const createNote = async (title: string, text: string, tags?: string[]): Promise<void> => {
-  await callBear("create", { text: renderNoteMarkdown({ title, text, tags }) });
+export interface WriteOptions {
+  // Poll the database after sending until the change is visible. Off by
+  // default: confirming costs up to timeoutMs per write, and an unconfirmed
+  // write never opens the database at all.
+  confirm?: boolean;
+  timeoutMs?: number;
+  intervalMs?: number;
+  // The note's modifiedAt as the caller last read it. Checked against the
+  // database right before sending: a note edited in Bear since then refuses
+  // with ConflictError instead of having those edits overwritten. Checking
+  // opens the database, confirm or not.
+  expectedModifiedAt?: string;
+}
+
+export const DEFAULT_CONFIRM_TIMEOUT_MS = 10_000;
+export const DEFAULT_CONFIRM_INTERVAL_MS = 250;
+
+// Both sides are compared as instants to the second, the precision
+// modifiedAt is reported in, so an equivalent spelling of the same time
+// ("…00.000Z") is not a conflict.
+const sameSecond = (left: string, right: string): boolean =>
+  Math.floor(Date.parse(left) / 1000) === Math.floor(Date.parse(right) / 1000);
+
+const assertUnmodified = (getDb: () => Database, noteId: string, expected: string, action: string): void => {
+  let row: { modifiedAt: string | null } | undefined;
+  try {
+    row = getDb()
+      .prepare(`SELECT ${isoTimestamp("ZMODIFICATIONDATE")} as modifiedAt FROM ZSFNOTE WHERE ZUNIQUEIDENTIFIER = ?`)
+      .get(noteId) as { modifiedAt: string | null } | undefined;
+  } catch (error) {
+    throw readError(`Bear action '${action}' was not sent: note ${noteId} could not be checked for changes`, error);
+  }
+  if (!row) throw new BearError(`Bear action '${action}' was not sent: no note with id ${noteId} exists.`);
+  if (row.modifiedAt !== null && sameSecond(row.modifiedAt, expected)) return;
+
+  throw new ConflictError(
+    `Note ${noteId} has changed since it was read: expected modifiedAt ${expected}, ` +
+      `but Bear's database has ${row.modifiedAt ?? "no modification time"}. Nothing was sent; ` +
+      "read the note again and redo the edit on its current content."
+  );
 };
 
-export const appendToNote = async (noteId: string, text: string): Promise<void> => {
-  await callBear("add-text", { id: noteId, text, mode: "append" });
+// The one path every confirmable write takes. The baseline is read before
+// the send, so a change that lands while the URL is still in flight is
+// compared against the state it changed, not against itself. Returns
+// undefined when no confirmation was asked for.
+const sendAndConfirm = async (
+  action: string,
+  params: Record<string, string>,
+  options: WriteOptions,
+  getDb: () => Database,
+  expectation: (db: Database) => WriteCheck
+): Promise<WriteConfirmation | undefined> => {
+  if (options.expectedModifiedAt !== undefined && params.id !== undefined) {
+    assertUnmodified(getDb, params.id, options.expectedModifiedAt, action);
+  }
+
+  if (!options.confirm) {
+    await callBear(action, params);
+    return undefined;
+  }
+
+  let check: WriteCheck;
+  try {
+    check = expectation(getDb());
+  } catch (error) {
+    throw readError(`Bear action '${action}' was not sent: the baseline for confirming it could not be read`, error);
+  }
+
+  await callBear(action, params);
+
+  try {
+    return await pollForWrite(check, {
+      timeoutMs: options.timeoutMs ?? DEFAULT_CONFIRM_TIMEOUT_MS,
+      intervalMs: options.intervalMs ?? DEFAULT_CONFIRM_INTERVAL_MS,
+    });
+  } catch (error) {
+    throw readError(`Bear action '${action}' was sent, but confirming it failed`, error);
+  }
 };
 
-export const prependToNote = async (noteId: string, text: string): Promise<void> => {
-  await callBear("add-text", { id: noteId, text, mode: "prepend" });
+// With confirm, the poll doubles as the lookup for the new note's id, which
+// Bear assigns and never reports back: a confirmed result carries noteId.
+// The lookup is a convenience, so unlike the other writes a create whose
+// baseline cannot be read (no Full Disk Access, say) is still sent, as it
+// was before confirm existed, and returns no confirmation.
+export const createNote = async (
+  title: string,
+  text: string,
+  tags?: string[],
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<WriteConfirmation | undefined> => {
+  const params = { text: renderNoteMarkdown({ title, text, tags }) };
+  let baseline: WriteCheck | undefined;
+  if (options.confirm) {
+    try {
+      baseline = expectCreated(getDb(), title);
+    } catch {
+      baseline = undefined;
+    }
+  }
+  if (!baseline) {
+    await callBear("create", params);
+    return undefined;
+  }
+  const check = baseline;
+  return sendAndConfirm("create", params, options, getDb, () => check);
 };
 
+export const appendToNote = async (
+  noteId: string,
+  text: string,
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<WriteConfirmation | undefined> =>
+  sendAndConfirm("add-text", { id: noteId, text, mode: "append" }, options, getDb, db =>
+    expectAppended(db, noteId, text)
+  );
+
+export const prependToNote = async (
+  noteId: string,
+  text: string,
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<WriteConfirmation | undefined> =>
+  sendAndConfirm("add-text", { id: noteId, text, mode: "prepend" }, options, getDb, db =>
+    expectPrepended(db, noteId, text)
+  );
+
 // mode=replace_all replaces the whole note including its title (Bear's
 // `replace` is the variant that keeps the title), which is why the title is
 // rendered back into the text as an H1.
-export const replaceNoteContent = async (noteId: string, title: string, text: string, tags?: string[]): Promise<void> => {
-  await callBear("add-text", {
-    id: noteId,
-    text: renderNoteMarkdown({ title, text, tags }),
-    mode: "replace_all",
-  });
+export const replaceNoteContent = async (
+  noteId: string,
+  title: string,
+  text: string,
+  tags?: string[],
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<WriteConfirmation | undefined> => {
+  const markdown = renderNoteMarkdown({ title, text, tags });
+  return sendAndConfirm("add-text", { id: noteId, text: markdown, mode: "replace_all" }, options, getDb, db =>
+    expectReplaced(db, noteId, markdown)
+  );
+};
+
+// The raw body a read-modify-write starts from, exactly as stored. Read
+// through its own query rather than getNoteContent, which is shaped for
+// display, not for editing.
+const readNoteBody = (getDb: () => Database, noteId: string, action: string): string => {
+  let row: { text: string | null } | undefined;
+  try {
+    row = getDb().prepare("SELECT ZTEXT as text FROM ZSFNOTE WHERE ZUNIQUEIDENTIFIER = ?").get(noteId) as
+      | { text: string | null }
+      | undefined;
+  } catch (error) {
+    throw readError(`Bear action '${action}' was not sent: note ${noteId} could not be read`, error);
+  }
+  if (!row) throw new BearError(`Bear action '${action}' was not sent: no note with id ${noteId} exists.`);
+  return row.text ?? "";
 };
 
-export const trashNote = async (noteId: string): Promise<void> => {
-  await callBear("trash", { id: noteId });
+// Sends a whole edited body back. mode=replace keeps the note's first line
+// and replaces what follows, so the title is never re-sent -- and with it
+// the chance of re-rendering it differently. Only an edit to the first line
+// itself has to go through replace_all.
+const writeNoteBody = (
+  noteId: string,
+  body: string,
+  firstLineChanged: boolean,
+  options: WriteOptions,
+  getDb: () => Database
+): Promise<WriteConfirmation | undefined> => {
+  const newline = body.indexOf("\n");
+  const params =
+    firstLineChanged || newline === -1
+      ? { id: noteId, text: body, mode: "replace_all" }
+      : { id: noteId, text: body.slice(newline + 1), mode: "replace" };
+  return sendAndConfirm("add-text", params, options, getDb, db => expectReplaced(db, noteId, body));
 };
 
-export const archiveNote = async (noteId: string): Promise<void> => {
-  await callBear("archive", { id: noteId });
+// What a targeted edit did: nothing was sent when the note already said what
+// was asked for.
+export interface EditResult {
+  sent: boolean;
+  confirmation?: WriteConfirmation;
+}
+
+const firstLine = (text: string): string => text.split("\n", 1)[0];
+
+// Sends a find-and-replace result. The first line is only re-sent when the
+// edit touched it, and may not be edited away entirely: a blank first line
+// is a note without a title.
+const sendEditedBody = (
+  noteId: string,
+  body: string,
+  updated: string,
+  options: WriteOptions,
+  getDb: () => Database
+): Promise<WriteConfirmation | undefined> => {
+  if (!firstLine(updated).trim()) {
+    throw new EditError("The edits would leave the note's first line blank, and with it the note's title. Nothing was sent.");
+  }
+  return writeNoteBody(noteId, updated, firstLine(updated) !== firstLine(body), options, getDb);
 };
 
+// What a find-and-replace edit changed, as a unified diff of the body. Empty,
+// with nothing sent, when the edits left the body as it was.
+export interface PatchResult extends EditResult {
+  diff: string;
+}
+
+// Applies find-and-replace edits to the stored body and sends the result
+// back, so fixing a typo does not mean resending the note through
+// bear_replace_content.
+export const editNote = async (
+  noteId: string,
+  edits: TextEdit[],
+  match: MatchOptions = {},
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<PatchResult> => {
+  const body = readNoteBody(getDb, noteId, "add-text");
+  const updated = applyEdits(body, edits, match);
+  const diff = unifiedDiff(body, updated, noteId);
+  if (updated === body) return { sent: false, diff };
+  const confirmation = await sendEditedBody(noteId, body, updated, options, getDb);
+  return { sent: true, confirmation, diff };
+};
+
+export interface BulkReplaceOptions extends PageOptions, DateRangeOptions, MatchOptions {
+  // Only notes whose title or body contains this, folded as search folds it.
+  term?: string;
+  tag?: string;
+  includeDescendants?: boolean;
+}
+
+// One note a bulk replace would change, and how.
+export interface BulkReplaceNote {
+  noteId: string;
+  title: string;
+  replacements: number;
+  diff: string;
+}
+
+// A dry run: one page of the notes that would change, with the totals over
+// all of them and the token that applies exactly this plan.
+export interface BulkReplacePreview {
+  notes: BulkReplaceNote[];
+  count: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+  totalNotes: number;
+  totalReplacements: number;
+  token: string;
+}
+
+// "sent" without confirm; the confirmation's status with it. "failed" when
+// the write was refused or could not be sent, "skipped" when an earlier
+// failure stopped the run first.
+export type BulkWriteStatus = "sent" | ConfirmStatus | "failed" | "skipped";
+
+export interface BulkWriteResult {
+  noteId: string;
+  title: string;
+  replacements: number;
+  status: BulkWriteStatus;
+  reason?: string;
+}
+
+export interface BulkReplaceResult {
+  results: BulkWriteResult[];
+  // Notes whose write went out, whatever its confirmation said.
+  written: number;
+  failed: number;
+  skipped: number;
+}
+
+interface PlannedReplace {
+  noteId: string;
+  title: string;
+  modifiedAt?: string;
+  body: string;
+  updated: string;
+  replacements: number;
+}
+
+// Every live note in scope that `find` would change, most recently modified
+// first. Scoped the way bear_search scopes a term, a tag and dates.
+const planBulkReplace = (
+  find: string,
+  replace: string,
+  options: BulkReplaceOptions,
+  db: Database,
+  failure: string
+): PlannedReplace[] => {
+  const dates = resolveDateRange(options);
+
+  try {
+    const term = options.term?.trim() || undefined;
+    const tagName = options.tag ? normalizeTagName(options.tag) : undefined;
+    const query = buildLiveNotesQuery(db, {
+      tagName,
+      includeDescendants: options.includeDescendants,
+      dates,
+      withMatchText: true,
+    });
+    if (!query) return [];
+
+    // Streamed without ORDER BY for the reason given on pageInMemory.
+    const statement = db.prepare(query.sql);
+    const rows: { row: SearchRow; body: string; updated: string; replacements: number }[] = [];
+    try {
+      for (const row of statement.iterate(...query.params) as IterableIterator<SearchRow>) {
+        if (term && !matchesTerm(term)(row)) continue;
+        const body = row.matchText ?? "";
+        const { text, count } = replaceAllMatches(body, find, replace, options);
+        if (text !== body) rows.push({ row: withoutQueryColumns(row), body, updated: text, replacements: count });
+      }
+    } finally {
+      statement.finalize();
+    }
+
+    const bySort = compareRows(resolveOrder({}));
+    rows.sort((left, right) => bySort(left.row, right.row));
+    return rows.map(({ row, ...change }) => ({
+      noteId: addressableId(row),
+      title: row.title ?? "",
+      modifiedAt: row.modifiedAt,
+      ...change,
+    }));
+  } catch (error) {
+    throw readError(failure, error);
+  }
+};
+
+// Names one exact plan: the replacement asked for and every body it would
+// change, as they are now. A preview and an apply that compute the same
+// token are looking at the same notes in the same state, so no state has to
+// be kept between the two calls.
+const planToken = (find: string, replace: string, options: MatchOptions, plan: PlannedReplace[]): string =>
+  createHash("sha256")
+    .update(JSON.stringify([find, replace, Boolean(options.folded), plan.map(note => [note.noteId, note.body])]))
+    .digest("hex")
+    .slice(0, 16);
+
+// The dry run of a library-wide find and replace. Nothing is sent.
+export const previewBulkReplace = (
+  find: string,
+  replace: string,
+  options: BulkReplaceOptions = {},
+  db: Database = getDatabase()
+): BulkReplacePreview => {
+  const plan = planBulkReplace(find, replace, options, db, "Failed to preview the replacement");
+  const limit = clampLimit(options.limit ?? DEFAULT_LIMIT, DEFAULT_LIMIT);
+  const offset = clampOffset(options.offset ?? 0);
+  const notes = plan.slice(offset, offset + limit).map(note => ({
+    noteId: note.noteId,
+    title: note.title,
+    replacements: note.replacements,
+    diff: unifiedDiff(note.body, note.updated, note.noteId),
+  }));
+  return {
+    notes,
+    count: notes.length,
+    limit,
+    offset,
+    hasMore: plan.length > offset + limit,
+    totalNotes: plan.length,
+    totalReplacements: plan.reduce((sum, note) => sum + note.replacements, 0),
+    token: planToken(find, replace, options, plan),
+  };
+};
+
+// Applies a previewed bulk replace, one note at a time. The plan is computed
+// again and must still match the preview's token: a note edited, added to or
+// dropped from the scope in between refuses the whole run with
+// ConflictError before anything is sent. Each write then carries the
+// modifiedAt it was planned against, so a note edited during the run fails on
+// its own instead of being overwritten.
+export const applyBulkReplace = async (
+  find: string,
+  replace: string,
+  token: string,
+  options: BulkReplaceOptions & { stopOnFailure?: boolean } = {},
+  writeOptions: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<BulkReplaceResult> => {
+  const plan = planBulkReplace(find, replace, options, getDb(), "Bulk replace was not sent: the notes could not be read");
+  const current = planToken(find, replace, options, plan);
+  if (current !== token) {
+    throw new ConflictError(
+      `The notes in scope have changed since the preview (token ${token}, now ${current}). ` +
+        "Nothing was sent; preview again and apply the new token."
+    );
+  }
+
+  const results: BulkWriteResult[] = [];
+  let stopped = false;
+  for (const note of plan) {
+    const base = { noteId: note.noteId, title: note.title, replacements: note.replacements };
+    if (stopped) {
+      results.push({ ...base, status: "skipped" });
+      continue;
+    }
+
+    let result: BulkWriteResult;
+    try {
+      const confirmation = await sendEditedBody(
+        note.noteId,
+        note.body,
+        note.updated,
+        { ...writeOptions, expectedModifiedAt: note.modifiedAt },
+        getDb
+      );
+      result = { ...base, status: confirmation?.status ?? "sent" };
+      if (confirmation?.reason) result.reason = confirmation.reason;
+    } catch (error) {
+      result = { ...base, status: "failed", reason: error instanceof Error ? error.message : "An unknown error occurred" };
+    }
+    results.push(result);
+    if (options.stopOnFailure && result.status !== "sent" && result.status !== "confirmed") stopped = true;
+  }
+
+  const counted = (status: BulkWriteStatus) => results.filter(result => result.status === status).length;
+  return {
+    results,
+    written: results.length - counted("failed") - counted("skipped"),
+    failed: counted("failed"),
+    skipped: counted("skipped"),
+  };
+};
+
+// A tag edit on one note, with the note's tags on either side of it as
+// SQLite has them. `tagsAfter` reflects the write only once Bear applied it,
+// so it is read after confirming when confirm was asked for.
+export interface TagEditResult extends EditResult {
+  tagsBefore: string[];
+  tagsAfter: string[];
+}
+
+// Normalized, without repeats under the tag-identity rule. add-text takes
+// its tags comma-separated, so a comma cannot be part of a name.
+const requireTagNames = (tags: string[], action: string): string[] => {
+  const names: string[] = [];
+  for (const tag of tags) {
+    const name = requireTagName(tag, action);
+    if (name.includes(",")) {
+      throw new BearError(`Bear action '${action}' cannot send the tag '${name}': Bear separates tags with commas.`);
+    }
+    if (!names.some(existing => sameTag(existing, name))) names.push(name);
+  }
+  return names;
+};
+
+const readTagsOf = (getDb: () => Database, noteId: string, action: string): string[] => {
+  try {
+    return getNoteTags(getDb(), noteId);
+  } catch (error) {
+    throw readError(`Bear action '${action}' was not sent: the tags of note ${noteId} could not be read`, error);
+  }
+};
+
+// Adds tags through add-text's own `tags` parameter, which leaves the text
+// of the note to Bear. Tags the note already has are not sent again.
+export const tagNote = async (
+  noteId: string,
+  tags: string[],
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<TagEditResult> => {
+  const names = requireTagNames(tags, "add-text");
+  // Refuses an unknown id before anything is sent.
+  readNoteBody(getDb, noteId, "add-text");
+  const tagsBefore = readTagsOf(getDb, noteId, "add-text");
+
+  const missing = names.filter(name => !tagsBefore.some(existing => sameTag(existing, name)));
+  if (missing.length === 0) return { sent: false, tagsBefore, tagsAfter: tagsBefore };
+
+  const params = { id: noteId, mode: "append", text: "", tags: missing.join(",") };
+  const confirmation = await sendAndConfirm("add-text", params, options, getDb, db =>
+    expectTagsAdded(db, noteId, missing)
+  );
+  return { sent: true, confirmation, tagsBefore, tagsAfter: readTagsOf(getDb, noteId, "add-text") };
+};
+
+// Removes tags by rewriting their occurrences in the text, since Bear has no
+// action that untags one note. Nested tags below them stay.
+export const untagNote = async (
+  noteId: string,
+  tags: string[],
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<TagEditResult> => {
+  const names = requireTagNames(tags, "add-text");
+  const body = readNoteBody(getDb, noteId, "add-text");
+  const tagsBefore = readTagsOf(getDb, noteId, "add-text");
+
+  const updated = names.reduce((text, name) => removeTagFromText(text, name).text, body);
+  if (updated === body) return { sent: false, tagsBefore, tagsAfter: tagsBefore };
+
+  const confirmation = await sendEditedBody(noteId, body, updated, options, getDb);
+  return { sent: true, confirmation, tagsBefore, tagsAfter: readTagsOf(getDb, noteId, "add-text") };
+};
+
+// Checks or unchecks one checklist item, read from and written back to the
+// stored body so nothing else in the note moves. The locator comes from
+// bear_list_todos; if the note changed since, setChecklistItem refuses.
+export const setTodo = async (
+  noteId: string,
+  locator: ItemLocator,
+  done: boolean,
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<EditResult> => {
+  const body = readNoteBody(getDb, noteId, "add-text");
+  const updated = setChecklistItem(body, locator, done);
+  if (updated === body) return { sent: false };
+  const confirmation = await writeNoteBody(noteId, updated, locator.line === 1, options, getDb);
+  return { sent: true, confirmation };
+};
+
+// Adds text at the start or end of one section. Bear's add-text can do that
+// itself through its `header` parameter, which keeps the write as small as a
+// plain append; where Bear's lookup by header text could pick a different
+// heading than the one meant, the whole body is edited here and sent back
+// with mode=replace instead. Either way the note is read first: a heading
+// that names no section, or several, refuses with SectionError before
+// anything is sent.
+export const addToSection = async (
+  noteId: string,
+  heading: string,
+  text: string,
+  position: SectionPosition,
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<WriteConfirmation | undefined> => {
+  const body = readNoteBody(getDb, noteId, "add-text");
+  const header = bearHeader(body, heading);
+  if (header === undefined) {
+    return writeNoteBody(noteId, insertIntoSection(body, heading, text, position), false, options, getDb);
+  }
+  const expectation = position === "append" ? expectAppended : expectPrepended;
+  return sendAndConfirm("add-text", { id: noteId, text, mode: position, header }, options, getDb, db =>
+    expectation(db, noteId, text)
+  );
+};
+
+// Replaces everything under one heading, subsections included. The heading
+// line and the title stay as they are.
+export const replaceSection = async (
+  noteId: string,
+  heading: string,
+  text: string,
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<EditResult> => {
+  const body = readNoteBody(getDb, noteId, "add-text");
+  const updated = replaceSectionBody(body, heading, text);
+  if (updated === body) return { sent: false };
+  const confirmation = await writeNoteBody(noteId, updated, false, options, getDb);
+  return { sent: true, confirmation };
+};
+
+export const trashNote = async (
+  noteId: string,
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<WriteConfirmation | undefined> =>
+  sendAndConfirm("trash", { id: noteId }, options, getDb, db => expectTrashed(db, noteId));
+
+export const archiveNote = async (
+  noteId: string,
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<WriteConfirmation | undefined> =>
+  sendAndConfirm("archive", { id: noteId }, options, getDb, db => expectArchived(db, noteId));
+
 // There is no unarchive action: Bear's x-callback-url API exposes create,
 // add-text, add-file, open-note, open-tag, tags, rename-tag, delete-tag,
 // trash, archive, untagged, todo, today, locked, search, grab-url and
@@ -199,15 +1020,26 @@ const requireTagName = (tag: string, action: string): string => {
   return name;
 };
 
-export const renameTag = async (name: string, newName: string): Promise<void> => {
-  await callBear("rename-tag", {
-    name: requireTagName(name, "rename-tag"),
-    new_name: requireTagName(newName, "rename-tag"),
-  });
+export const renameTag = async (
+  name: string,
+  newName: string,
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<WriteConfirmation | undefined> => {
+  const from = requireTagName(name, "rename-tag");
+  const to = requireTagName(newName, "rename-tag");
+  return sendAndConfirm("rename-tag", { name: from, new_name: to }, options, getDb, db =>
+    expectTagRenamed(db, from, to)
+  );
 };
 
-export const deleteTag = async (name: string): Promise<void> => {
-  await callBear("delete-tag", { name: requireTagName(name, "delete-tag") });
+export const deleteTag = async (
+  name: string,
+  options: WriteOptions = {},
+  getDb: () => Database = getDatabase
+): Promise<WriteConfirmation | undefined> => {
+  const tagName = requireTagName(name, "delete-tag");
+  return sendAndConfirm("delete-tag", { name: tagName }, options, getDb, db => expectTagDeleted(db, tagName));
 };
 
 // ============================================================================
@@ -278,20 +1110,45 @@ const withTags = (db: Database, rows: NoteRow[]): Note[] => {
   return rows.map(row => toNote(row, tagsByNote[addressableId(row)] ?? []));
 };
 
-// A note row plus the two columns that exist only to serve the query itself:
-// the body, read for text matching but never projected into the returned Note,
-// and the raw modification date, used when the ordering happens in JS.
-type SearchRow = NoteRow & { matchText?: string | null; sortKey?: number | null };
+// A note row plus the columns that exist only to serve the query itself: the
+// body, read for text matching but never projected into the returned Note,
+// the raw date being sorted on, used when the ordering happens in JS, and the
+// primary key, used to look up a row's tags for a tag: query term.
+type SearchRow = NoteRow & { matchText?: string | null; sortKey?: number | null; pk?: number };
 
 // Tag names are compared in JS, so a tag lookup starts by resolving the name
 // to primary keys. Bear stores a few hundred tags at most, so reading them all
 // is cheaper than it looks and avoids SQLite's ASCII-only LOWER().
-const matchingTagPks = (db: Database, tagName: string): number[] => {
+const matchingTagPks = (db: Database, tagName: string, includeDescendants = false): number[] => {
   const rows = db
     .prepare("SELECT Z_PK as pk, ZTITLE as name FROM ZSFNOTETAG")
     .all() as { pk: number; name: string | null }[];
 
-  return rows.filter(row => row.name != null && sameTag(row.name, tagName)).map(row => row.pk);
+  const matches = includeDescendants ? isTagOrDescendant : sameTag;
+  return rows.filter(row => row.name != null && matches(row.name, tagName)).map(row => row.pk);
+};
+
+// Every note's tags in tagKey() form, keyed by note primary key. Read once
+// per query rather than per candidate row, since a tag: term can sit under an
+// OR or a negation and so cannot be pushed into the SQL as a semi-join.
+const tagKeysByNotePk = (db: Database): Map<number, Set<string>> => {
+  const join = tagJoin(db);
+  const rows = db
+    .prepare(`
+      SELECT nt.${join.noteColumn} as notePk, t.ZTITLE as name
+      FROM ${join.table} nt
+      JOIN ZSFNOTETAG t ON nt.${join.tagColumn} = t.Z_PK
+    `)
+    .all() as { notePk: number; name: string | null }[];
+
+  const result = new Map<number, Set<string>>();
+  for (const row of rows) {
+    if (row.name == null) continue;
+    const keys = result.get(row.notePk) ?? new Set<string>();
+    keys.add(tagKey(row.name));
+    result.set(row.notePk, keys);
+  }
+  return result;
 };
 
 interface NoteQuery {
@@ -299,41 +1156,161 @@ interface NoteQuery {
   params: (string | number)[];
 }
 
-// The one live-notes query both bear_search and bear_list_by_tag run, so the
-// two cannot drift in either the rows they return or the fields on them. No
+interface NotesQueryOptions {
+  tagName?: string;
+  // Already normalized. Each is resolved the way tagName is.
+  tagsAll?: string[];
+  tagsAny?: string[];
+  tagsNone?: string[];
+  includeDescendants?: boolean;
+  // Only notes with no tag.
+  untagged?: boolean;
+  pinned?: boolean;
+  // Only notes Bear's counters say have todos in this state.
+  todoState?: "open" | "done";
+  // Only notes whose body has a `[[`, the cheap half of finding wiki links.
+  withWikiLinks?: boolean;
+  // Restrict to these primary keys: the term matches the search index found.
+  notePks?: number[];
+  // Project the body as matchText, for a text filter applied in JS.
+  withMatchText: boolean;
+  // Scopes to search besides the live notes, for a search query's un-negated
+  // in: terms. Given any, the two flags are projected for the query to test.
+  alsoIn?: QueryScope[];
+  dates?: DateBounds;
+  // Which date to project as sortKey. Defaults to the modification date.
+  sortField?: SortField;
+}
+
+const TODO_COUNTERS = { open: "ZTODOINCOMPLETED", done: "ZTODOCOMPLETED" } as const;
+
+// The one notes query both bear_search and bear_list_by_tag run, so the two
+// cannot drift in either the rows they return or the fields on them. No
 // ORDER BY and no LIMIT: each caller below appends the ones it can afford.
 // Returns null when the tag exists in neither spelling nor case, which means
 // "no notes" without running a query.
-const buildLiveNotesQuery = (
-  db: Database,
-  tagName: string | undefined,
-  withMatchText: boolean
-): NoteQuery | null => {
+const buildLiveNotesQuery = (db: Database, options: NotesQueryOptions): NoteQuery | null => {
   const columns = [
+    "n.Z_PK as pk",
     "n.ZUNIQUEIDENTIFIER as id",
     "n.ZTITLE as title",
     timestampColumns("n"),
-    "n.ZMODIFICATIONDATE as sortKey",
+    `${sortColumn(options.sortField)} as sortKey`,
+    pinnedColumn(db, "n"),
   ];
-  if (withMatchText) columns.push("n.ZTEXT as matchText");
-
-  const filters = [liveNotesFilter("n"), addressableFilter("n")];
+  if (options.withMatchText) columns.push("n.ZTEXT as matchText");
+
+  const filters = [addressableFilter("n")];
+  const alsoIn = options.alsoIn ?? [];
+  if (alsoIn.length > 0) {
+    columns.push("n.ZTRASHED as isTrashed", "n.ZARCHIVED as isArchived");
+    // Read as matchesQuery reads in: a trashed note is in the trash, whatever
+    // its archived flag says.
+    const scopes = alsoIn.map(scope =>
+      scope === "trash" ? "n.ZTRASHED = 1" : "(n.ZARCHIVED = 1 AND n.ZTRASHED IS NOT 1)"
+    );
+    filters.unshift(`((${liveNotesFilter("n")}) OR ${scopes.join(" OR ")})`);
+  } else {
+    filters.unshift(liveNotesFilter("n"));
+  }
   const params: (string | number)[] = [];
 
-  if (tagName) {
-    const tagPks = matchingTagPks(db, tagName);
-    if (tagPks.length === 0) return null;
+  if (options.dates) {
+    const { clauses, params: bounds } = dateRangeClauses("n", options.dates);
+    filters.unshift(...clauses);
+    params.unshift(...bounds);
+  }
 
-    // A semi-join rather than a JOIN, so no DISTINCT is needed. DISTINCT over
-    // a projection that includes ZTEXT would make SQLite copy every tagged
-    // note's body into a temp b-tree before yielding the first row.
+  if (options.pinned !== undefined) {
+    // A database with no pin column has no pinned notes: asking for them
+    // finds nothing, and asking for the unpinned ones filters nothing out.
+    if (hasNoteColumn(db, "ZPINNED")) filters.unshift(options.pinned ? "n.ZPINNED IS 1" : "n.ZPINNED IS NOT 1");
+    else if (options.pinned) return null;
+  }
+
+  if (options.todoState) {
+    // Bear keeps a count of each note's open and done items. A prefilter
+    // only: the items are still parsed from the body, so a NULL count reads
+    // as "unknown" and lets the note through, and a database without the
+    // counters is simply scanned in full.
+    const counter = TODO_COUNTERS[options.todoState];
+    if (hasNoteColumn(db, counter)) filters.unshift(`n.${counter} IS NOT 0`);
+  }
+
+  if (options.withWikiLinks) filters.unshift("instr(n.ZTEXT, '[[') > 0");
+
+  if (options.notePks) {
+    // One JSON parameter rather than a placeholder per key: a common term can
+    // match thousands of notes, past SQLite's bound-parameter limit.
+    filters.unshift("n.Z_PK IN (SELECT value FROM json_each(?))");
+    params.unshift(JSON.stringify(options.notePks));
+  }
+
+  if (options.untagged) {
+    // An anti-join, as NOT EXISTS for the NULL-safety reason given below. A
+    // link to a tag row with no name does not count: such a tag is never
+    // listed or attached to a Note, so the note would look untagged anyway.
     const join = tagJoin(db);
-    const placeholders = tagPks.map(() => "?").join(", ");
     filters.unshift(
-      `n.Z_PK IN (SELECT nt.${join.noteColumn} FROM ${join.table} nt ` +
-        `WHERE nt.${join.tagColumn} IN (${placeholders}))`
+      `NOT EXISTS (SELECT 1 FROM ${join.table} nt JOIN ZSFNOTETAG t ON t.Z_PK = nt.${join.tagColumn} ` +
+        `WHERE nt.${join.noteColumn} = n.Z_PK AND t.ZTITLE IS NOT NULL)`
     );
-    params.push(...tagPks);
+  }
+
+  const required = [options.tagName, ...(options.tagsAll ?? [])].filter((name): name is string => Boolean(name));
+  const anyOf = options.tagsAny ?? [];
+  const noneOf = options.tagsNone ?? [];
+
+  if (required.length > 0 || anyOf.length > 0 || noneOf.length > 0) {
+    const join = tagJoin(db);
+    const resolve = (name: string) => matchingTagPks(db, name, options.includeDescendants);
+    // A semi-join rather than a JOIN, so no DISTINCT is needed -- which also
+    // keeps a note carrying several matching tags to one row. DISTINCT over a
+    // projection that includes ZTEXT would make SQLite copy every tagged
+    // note's body into a temp b-tree before yielding the first row.
+    const carries = (tagPks: number[], negate = false): string => {
+      const placeholders = tagPks.map(() => "?").join(", ");
+      // NOT EXISTS rather than NOT IN for the negation: NOT IN over a
+      // subquery that yields a NULL is never true, so one join row with an
+      // unset note column would hide every note.
+      return negate
+        ? `NOT EXISTS (SELECT 1 FROM ${join.table} nt WHERE nt.${join.noteColumn} = n.Z_PK ` +
+            `AND nt.${join.tagColumn} IN (${placeholders}))`
+        : `n.Z_PK IN (SELECT nt.${join.noteColumn} FROM ${join.table} nt ` +
+            `WHERE nt.${join.tagColumn} IN (${placeholders}))`;
+    };
+
+    const tagFilters: string[] = [];
+    const tagParams: number[] = [];
+
+    // One semi-join per required tag. A required tag that does not exist
+    // means no note can carry it, so there is nothing to query.
+    for (const name of required) {
+      const tagPks = resolve(name);
+      if (tagPks.length === 0) return null;
+      tagFilters.push(carries(tagPks));
+      tagParams.push(...tagPks);
+    }
+
+    // One semi-join over every alternative. Unknown names drop out; if none
+    // is left, again no note can match.
+    if (anyOf.length > 0) {
+      const tagPks = anyOf.flatMap(resolve);
+      if (tagPks.length === 0) return null;
+      tagFilters.push(carries(tagPks));
+      tagParams.push(...tagPks);
+    }
+
+    // An excluded tag that does not exist excludes nothing.
+    const excluded = noneOf.flatMap(resolve);
+    if (excluded.length > 0) {
+      tagFilters.push(carries(excluded, true));
+      tagParams.push(...excluded);
+    }
+
+    // Filters are prepended, so their parameters are too.
+    filters.unshift(...tagFilters);
+    params.unshift(...tagParams);
   }
 
   return {
@@ -347,22 +1324,107 @@ const buildLiveNotesQuery = (
   };
 };
 
-const matchesTerm = (row: SearchRow, term: string): boolean =>
+type RowFilter = (row: SearchRow) => boolean;
+
+const matchesTerm = (term: string): RowFilter => row =>
   containsFolded(row.title ?? "", term) || containsFolded(row.matchText ?? "", term);
 
+const matchesParsedQuery = (node: QueryNode, tagKeys: Map<number, Set<string>> | undefined): RowFilter => row =>
+  matchesQuery(node, {
+    title: row.title ?? "",
+    body: row.matchText ?? "",
+    tagKeys: (row.pk !== undefined && tagKeys?.get(row.pk)) || new Set<string>(),
+    isTrashed: Boolean(row.isTrashed),
+    isArchived: Boolean(row.isArchived),
+  });
+
+// Drops the columns that only served the query, so they never reach toNote's
+// caller or sit in the in-memory match set.
+const withoutQueryColumns = ({ matchText, pk, ...row }: SearchRow): SearchRow => row;
+
+// A sort resolved to what is compared and which way.
+interface ResultOrder {
+  field: SortField;
+  descending: boolean;
+  pinnedFirst: boolean;
+}
+
+const resolveOrder = ({ sort = "modified", direction, pinnedFirst = false }: SortOptions): ResultOrder => ({
+  field: sort,
+  descending: direction ? direction === "desc" : sort !== "title",
+  pinnedFirst,
+});
+
+// The pin flag as 0/1 under the name isPinned, or NULL on a database that
+// predates pinning. Every query that can be ordered pinned-first projects it,
+// so ORDER BY can name it either way: all-NULL simply orders nothing.
+const pinnedColumn = (db: Database, alias = ""): string =>
+  hasNoteColumn(db, "ZPINNED") ? `${alias ? `${alias}.` : ""}ZPINNED IS 1 as isPinned` : "NULL as isPinned";
+
+const sortColumn = (field: SortField = "modified"): string =>
+  field === "created" ? "n.ZCREATIONDATE" : "n.ZMODIFICATIONDATE";
+
+// NULL sorts before any value, as it does in SQLite, so a note with an unset
+// date lands in the same place whichever of the two paths ordered the page.
+const compareValues = <T extends number | string>(left: T | null | undefined, right: T | null | undefined): number => {
+  if (left === right) return 0;
+  if (left == null) return -1;
+  if (right == null) return 1;
+  return left < right ? -1 : 1;
+};
+
+// Pinned before unpinned whatever the direction, when asked for; otherwise
+// every pair is equal.
+const comparePinned = (order: ResultOrder) => (left: SearchRow, right: SearchRow): number =>
+  order.pinnedFirst ? Number(Boolean(right.isPinned)) - Number(Boolean(left.isPinned)) : 0;
+
+// The JS twin of orderBySql below, plus the title sort SQL cannot do. Titles
+// compare folded (text-match.ts), so "apple", "Banana" and "Äpple" sort the
+// same way they match; each title is folded once, not once per comparison.
+// The id breaks ties in the same direction, so the order is total and a page
+// boundary never falls between two notes SQLite and JS might swap.
+const compareRows = (order: ResultOrder): ((left: SearchRow, right: SearchRow) => number) => {
+  const folded = new Map<SearchRow, string>();
+  const titleOf = (row: SearchRow): string => {
+    let title = folded.get(row);
+    if (title === undefined) {
+      title = foldForMatch(row.title ?? "");
+      folded.set(row, title);
+    }
+    return title;
+  };
+  const sign = order.descending ? -1 : 1;
+  const byPin = comparePinned(order);
+
+  return (left, right) =>
+    byPin(left, right) ||
+    sign *
+      ((order.field === "title" ? compareValues(titleOf(left), titleOf(right)) : compareValues(left.sortKey, right.sortKey)) ||
+        compareValues(left.id, right.id));
+};
+
+// Null for the title sort, which has to happen in JS: SQLite's ORDER BY
+// folds case for ASCII only, the same gap text-match.ts exists to close.
+const orderBySql = (order: ResultOrder): string | null => {
+  if (order.field === "title") return null;
+  const direction = order.descending ? "DESC" : "ASC";
+  const pinned = order.pinnedFirst ? "isPinned DESC, " : "";
+  return `${pinned}${sortColumn(order.field)} ${direction}, n.ZUNIQUEIDENTIFIER ${direction}`;
+};
+
 const toPage = (db: Database, rows: NoteRow[], hasMore: boolean, limit: number, offset: number): NotePage => {
   const notes = withTags(db, rows);
   return { notes, count: notes.length, limit, offset, hasMore };
 };
 
-// No text filter: SQLite can order and page the rows itself. One extra row is
-// fetched so hasMore is known without a second query.
-const pageInSql = (db: Database, query: NoteQuery, limit: number, offset: number): NotePage => {
+// No text filter and a date sort: SQLite can order and page the rows itself.
+// One extra row is fetched so hasMore is known without a second query.
+const pageInSql = (db: Database, query: NoteQuery, orderBy: string, limit: number, offset: number): NotePage => {
   const sql = `${query.sql}
-      ORDER BY n.ZMODIFICATIONDATE DESC
+      ORDER BY ${orderBy}
       LIMIT ? OFFSET ?`;
   const rows = db.prepare(sql).all(...query.params, limit + 1, offset) as SearchRow[];
-  return toPage(db, rows.slice(0, limit), rows.length > limit, limit, offset);
+  return toPage(db, rows.slice(0, limit).map(withoutQueryColumns), rows.length > limit, limit, offset);
 };
 
 // With a text filter, SQLite cannot do the paging: matching is case-folded in
@@ -374,30 +1436,91 @@ const pageInSql = (db: Database, query: NoteQuery, limit: number, offset: number
 // into a temp b-tree before yielding the first one. Streaming instead keeps
 // one body in memory at a time, the match set holds only the projected fields,
 // and the ordering happens over that much smaller set.
+//
+// Ranking and snippets are worked out from the body while it is in hand, so
+// neither costs a second read nor keeps a body past its own row. A ranked
+// search's scores wait for the end of the pass, because how much a term
+// weighs depends on how many notes contain it.
+interface InMemoryOptions {
+  // Order by relevance to these terms, with the sort order breaking ties.
+  rankTerms?: string[];
+  // Excerpt the body around matches of `term`.
+  snippets?: SnippetOptions & { term: string };
+}
+
 const pageInMemory = (
   db: Database,
   query: NoteQuery,
-  term: string,
+  filters: RowFilter[],
+  order: ResultOrder,
   limit: number,
-  offset: number
+  offset: number,
+  { rankTerms, snippets }: InMemoryOptions = {}
 ): NotePage => {
   const statement = db.prepare(query.sql);
   const matches: SearchRow[] = [];
+  const stats: DocumentStats[] = [];
+  let examined = 0;
 
   try {
     for (const row of statement.iterate(...query.params) as IterableIterator<SearchRow>) {
-      if (!matchesTerm(row, term)) continue;
-      const { matchText, ...withoutBody } = row;
-      matches.push(withoutBody);
+      examined += 1;
+      if (!filters.every(filter => filter(row))) continue;
+      if (rankTerms) stats.push(documentStats(row.title ?? "", row.matchText ?? "", rankTerms));
+      const match = withoutQueryColumns(row);
+      if (snippets) match.snippets = buildSnippets(row.matchText ?? "", snippets.term, snippets);
+      matches.push(match);
     }
   } finally {
     statement.finalize();
   }
 
-  matches.sort((left, right) => (right.sortKey ?? 0) - (left.sortKey ?? 0));
+  const bySort = compareRows(order);
+  const byPin = comparePinned(order);
+  if (rankTerms) {
+    const scores = scoreDocuments(stats, examined);
+    matches.forEach((row, index) => (row.score = scores[index]));
+    // Equal scores are common (two notes mentioning the term once each), so
+    // the sort order breaks ties: the same search must page the same way
+    // every time, or page two can repeat or skip a note from page one.
+    // Pinned-first still comes first: it groups the ranking, not the reverse.
+    matches.sort(
+      (left, right) => byPin(left, right) || (right.score ?? 0) - (left.score ?? 0) || bySort(left, right)
+    );
+  } else {
+    matches.sort(bySort);
+  }
   return toPage(db, matches.slice(offset, offset + limit), matches.length > offset + limit, limit, offset);
 };
 
+// The optional sidecar index (search-index.ts). Unset, the default, means
+// every term search scans; the server entry point installs one when the user
+// configured a path. onFallback hears why a search could not use the index:
+// this module logs nothing itself, so how often to report it is the caller's
+// choice.
+let searchIndex: Database | null = null;
+let onSearchIndexFallback: ((reason: string) => void) | undefined;
+
+export const setSearchIndex = (index: Database | null, onFallback?: (reason: string) => void): void => {
+  searchIndex = index;
+  onSearchIndexFallback = onFallback;
+};
+
+// Term matches from the index, or undefined to say "scan instead". The index
+// is refreshed first, so it is only used once it reflects Bear's current
+// state; any failure on the way falls back to the scan, which is slower but
+// gives the same answer.
+const indexedTermMatches = (db: Database, term: string): number[] | undefined => {
+  if (!searchIndex) return undefined;
+  try {
+    refreshSearchIndex(searchIndex, db);
+    return matchingNotePks(searchIndex, term);
+  } catch (error) {
+    onSearchIndexFallback?.(error instanceof Error ? error.message : String(error));
+    return undefined;
+  }
+};
+
 const emptyPage = (limit: number, offset: number): NotePage => ({
   notes: [],
   count: 0,
@@ -406,30 +1529,172 @@ const emptyPage = (limit: number, offset: number): NotePage => ({
   hasMore: false,
 });
 
-export const searchNotes = (options: SearchOptions = {}, db: Database = getDatabase()): NotePage => {
+// A blank or "#"-only entry is dropped, the same rule as a blank `tag`.
+const normalizeTagNames = (names: string[] | undefined): string[] =>
+  (names ?? []).map(normalizeTagName).filter((name): name is string => name !== undefined);
+
+// Snippets are cut around `term` only: a query's text can sit under OR and
+// negation, where "the match" is not one thing to point at.
+const snippetOptions = (options: SearchOptions): (SnippetOptions & { term: string }) | undefined => {
+  const count = Math.min(Math.max(0, Math.floor(Number(options.snippets) || 0)), MAX_SNIPPETS);
+  if (count === 0) return undefined;
+  const term = options.term?.trim();
+  if (!term) throw new BearError("Snippets are cut around the term, so they need a term.");
+  const length = Math.floor(Number(options.snippetLength) || DEFAULT_SNIPPET_LENGTH);
+  return { term, count, length: Math.min(Math.max(length, MIN_SNIPPET_LENGTH), MAX_SNIPPET_LENGTH) };
+};
+
+// The text a relevance ranking scores against: the term and the query's
+// non-negated text. Without any, there is nothing to rank by, and quietly
+// falling back to recency would hide that from the caller.
+const relevanceTerms = (term: string | undefined, parsed: QueryNode | undefined): string[] => {
+  const terms = [term?.trim() ?? "", ...(parsed ? positiveTextTerms(parsed) : [])].filter(Boolean);
+  if (terms.length === 0) {
+    throw new BearError('order "relevance" needs a term or query text to rank by.');
+  }
+  return terms;
+};
+
+// The options only the other list functions built on the search path set.
+interface FindOptions extends SearchOptions {
+  // Only notes with no tag at all.
+  untagged?: boolean;
+}
+
+// The one search path, shared by bear_search and the list tools built on it.
+// `failure` names the operation in a read error.
+const findNotes = (options: FindOptions, db: Database, failure: string): NotePage => {
+  // Parsed outside the try below, so a syntax error reaches the caller as
+  // itself rather than as a generic read failure.
+  const parsed = options.query?.trim() ? parseQuery(options.query) : undefined;
+  const rankTerms = options.order === "relevance" ? relevanceTerms(options.term, parsed) : undefined;
+  const snippets = snippetOptions(options);
+  const dates = resolveDateRange(options);
+  const order = resolveOrder(options);
+
   try {
     // A blank term means "no text filter", and a blank or "#"-only tag means
     // "no tag filter" -- the same rule for both, so a caller whose variable
     // happens to be empty gets recent notes rather than a silent empty list.
     const term = options.term?.trim() || undefined;
     const tagName = options.tag ? normalizeTagName(options.tag) : undefined;
-
-    const isBrowse = !term && !tagName;
+    const tagsAll = normalizeTagNames(options.tagsAll);
+    const tagsAny = normalizeTagNames(options.tagsAny);
+    const tagsNone = normalizeTagNames(options.tagsNone);
+
+    // A date range alone is still browsing: it narrows the recent-notes view
+    // rather than asking a question, so it keeps the browse page size.
+    const isBrowse =
+      !term && !tagName && !parsed && !tagsAll.length && !tagsAny.length && !tagsNone.length && !options.untagged;
     const limit = clampLimit(
       options.limit ?? (isBrowse ? DEFAULT_BROWSE_LIMIT : DEFAULT_LIMIT),
       isBrowse ? DEFAULT_BROWSE_LIMIT : DEFAULT_LIMIT
     );
     const offset = clampOffset(options.offset ?? 0);
 
-    const query = buildLiveNotesQuery(db, tagName, term !== undefined);
+    const alsoIn = parsed ? positiveScopes(parsed) : [];
+    // The index covers live notes only, so it answers only a live-scope search.
+    // Nor does it serve a ranked search: a term's weight depends on how many
+    // of the searched notes contain it, so the ranking has to see them all.
+    const notePks = term && alsoIn.length === 0 && !rankTerms ? indexedTermMatches(db, term) : undefined;
+
+    const filters: RowFilter[] = [];
+    if (term && !notePks) filters.push(matchesTerm(term));
+    if (parsed) {
+      const tagKeys = someNode(parsed, node => node.type === "tag") ? tagKeysByNotePk(db) : undefined;
+      filters.push(matchesParsedQuery(parsed, tagKeys));
+    }
+
+    const query = buildLiveNotesQuery(db, {
+      tagName,
+      tagsAll,
+      tagsAny,
+      tagsNone,
+      includeDescendants: options.includeDescendants,
+      untagged: options.untagged,
+      pinned: options.pinned,
+      notePks,
+      dates,
+      sortField: order.field,
+      // Snippets read the body even when the index found the matches, but
+      // then only the matching notes' bodies.
+      withMatchText:
+        (term !== undefined && !notePks) ||
+        (parsed !== undefined && someNode(parsed, node => node.type === "text")) ||
+        snippets !== undefined,
+      alsoIn,
+    });
     if (!query) return emptyPage(limit, offset);
 
-    return term
-      ? pageInMemory(db, query, term, limit, offset)
-      : pageInSql(db, query, limit, offset);
+    const orderBy = orderBySql(order);
+    return filters.length > 0 || snippets || !orderBy
+      ? pageInMemory(db, query, filters, order, limit, offset, { rankTerms, snippets })
+      : pageInSql(db, query, orderBy, limit, offset);
   } catch (error) {
-    throw readError("Failed to search notes", error);
+    throw readError(failure, error);
+  }
+};
+
+export const searchNotes = (options: SearchOptions = {}, db: Database = getDatabase()): NotePage =>
+  findNotes(options, db, "Failed to search notes");
+
+// What Bear's sidebar calls "Untagged": live notes with no tag, optionally
+// narrowed by a term and the date filters.
+export const listUntaggedNotes = (
+  options: ListOptions & { term?: string } = {},
+  db: Database = getDatabase()
+): NotePage => findNotes({ ...options, untagged: true }, db, "Failed to list untagged notes");
+
+// Raw ZSFNOTEFILE columns, the optional ones NULL where the database lacks
+// them.
+interface FileRow {
+  id: string;
+  filename: string | null;
+  extension: string | null;
+  size: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+// The live attachments of one note, or the one with a given id. A file Bear
+// marks unused (removed from the body) or permanently deleted is not
+// attached any more, whatever row is left behind.
+const noteAttachments = (db: Database, where: { notePk: number } | { fileId: string }): Attachment[] => {
+  const optional = (column: string, name: string) => `${hasFileColumn(db, column) ? `f.${column}` : "NULL"} as ${name}`;
+  const filters = ["f.ZUNIQUEIDENTIFIER IS NOT NULL"];
+  for (const flag of ["ZUNUSED", "ZPERMANENTLYDELETED"]) {
+    if (hasFileColumn(db, flag)) filters.push(`f.${flag} IS NOT 1`);
   }
+  filters.unshift("notePk" in where ? "f.ZNOTE = ?" : "f.ZUNIQUEIDENTIFIER = ?");
+
+  const rows = db
+    .prepare(`
+      SELECT
+        f.ZUNIQUEIDENTIFIER as id,
+        f.ZFILENAME as filename,
+        ${optional("ZNORMALIZEDFILEEXTENSION", "extension")},
+        ${optional("ZFILESIZE", "size")},
+        ${optional("ZWIDTH", "width")},
+        ${optional("ZHEIGHT", "height")}
+      FROM ZSFNOTEFILE f
+      WHERE ${filters.join("\n        AND ")}
+      ORDER BY f.Z_PK
+    `)
+    .all("notePk" in where ? where.notePk : where.fileId) as FileRow[];
+
+  // An in-memory database has no directory for the attachments to sit in.
+  const databasePath = db.filename && db.filename !== ":memory:" ? db.filename : undefined;
+
+  return rows.map(row => {
+    const filename = row.filename ?? "";
+    const mediaType = mediaTypeOf(filename, row.extension);
+    const attachment: Attachment = { id: row.id, filename, type: attachmentKind(mediaType), mediaType };
+    if (row.size != null) attachment.size = row.size;
+    if (row.width != null && row.width > 0) attachment.width = row.width;
+    if (row.height != null && row.height > 0) attachment.height = row.height;
+    if (databasePath && filename) attachment.path = attachmentPath(databasePath, attachment.type, row.id, filename);
+    return attachment;
+  });
 };
 
 export const getNoteContent = (noteId: string, db: Database = getDatabase()): Note | null => {
@@ -438,20 +1703,24 @@ export const getNoteContent = (noteId: string, db: Database = getDatabase()): No
     // archived note, which is exactly why both flags are projected here.
     const query = `
       SELECT
+        Z_PK as pk,
         ZUNIQUEIDENTIFIER as id,
         ZTITLE as title,
         ZTEXT as content,
         ${timestampColumns()},
         ZTRASHED as isTrashed,
-        ZARCHIVED as isArchived
+        ZARCHIVED as isArchived,
+        ${pinnedColumn(db)}
       FROM ZSFNOTE
       WHERE ZUNIQUEIDENTIFIER = ?
     `;
 
-    const row = db.prepare(query).get(noteId) as NoteRow | undefined;
+    const row = db.prepare(query).get(noteId) as (NoteRow & { pk: number }) | undefined;
     if (!row) return null;
 
-    return toNote(row, getNoteTags(db, noteId));
+    const note = toNote(row, getNoteTags(db, noteId));
+    if (hasFileTable(db)) note.attachments = noteAttachments(db, { notePk: row.pk });
+    return note;
   } catch (error) {
     throw readError("Failed to get note content", error);
   }
@@ -459,7 +1728,7 @@ export const getNoteContent = (noteId: string, db: Database = getDatabase()): No
 
 export const listNotesByTag = (
   tag: string,
-  options: PageOptions = {},
+  options: ListOptions & { includeDescendants?: boolean } = {},
   db: Database = getDatabase()
 ): NotePage => {
   const tagName = normalizeTagName(tag);
@@ -469,49 +1738,116 @@ export const listNotesByTag = (
   if (!tagName) {
     throw new BearError("A tag name is required, but the value was blank.");
   }
-  return searchNotes({ tag: tagName, limit: options.limit, offset: options.offset }, db);
+  return searchNotes({ ...options, tag: tagName }, db);
+};
+
+interface TagGroup {
+  name: string;
+  notes: Set<number>;
+}
+
+// Live notes' tags, grouped by tagKey and sorted by it.
+//
+// Grouped in JS rather than with SQL's GROUP BY, which is byte-exact.
+// "Work" and "work" are one tag as far as bear_list_by_tag is concerned, so
+// bear_list_tags must not report them as two rows with split counts. The note
+// primary keys are collected in a Set so a note carrying both spellings is
+// still counted once.
+const liveTagGroups = (db: Database): [string, TagGroup][] => {
+  const join = tagJoin(db);
+  const query = `
+    SELECT t.ZTITLE as name, n.Z_PK as notePk
+    FROM ZSFNOTETAG t
+    JOIN ${join.table} nt ON t.Z_PK = nt.${join.tagColumn}
+    JOIN ZSFNOTE n ON nt.${join.noteColumn} = n.Z_PK
+    WHERE ${liveNotesFilter("n")}
+  `;
+
+  const groups = new Map<string, TagGroup>();
+  for (const row of db.prepare(query).iterate() as IterableIterator<{ name: string | null; notePk: number }>) {
+    if (row.name == null) continue;
+    const key = tagKey(row.name);
+    const group = groups.get(key) ?? { name: row.name, notes: new Set<number>() };
+    // Lowest spelling wins as the display name, so the output does not
+    // depend on which row SQLite happened to return first.
+    if (row.name < group.name) group.name = row.name;
+    group.notes.add(row.notePk);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()].sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0));
 };
 
 export const getAllTags = (db: Database = getDatabase()): Tag[] => {
   try {
-    const join = tagJoin(db);
-    const query = `
-      SELECT t.ZTITLE as name, n.Z_PK as notePk
-      FROM ZSFNOTETAG t
-      JOIN ${join.table} nt ON t.Z_PK = nt.${join.tagColumn}
-      JOIN ZSFNOTE n ON nt.${join.noteColumn} = n.Z_PK
-      WHERE ${liveNotesFilter("n")}
-    `;
+    return liveTagGroups(db).map(([, group]) => ({ name: group.name, noteCount: group.notes.size }));
+  } catch (error) {
+    throw readError("Failed to get tags", error);
+  }
+};
 
-    // Grouped in JS rather than with SQL's GROUP BY, which is byte-exact.
-    // "Work" and "work" are one tag as far as bear_list_by_tag is concerned,
-    // so bear_list_tags must not report them as two rows with split counts.
-    // The note primary keys are collected in a Set so a note carrying both
-    // spellings is still counted once.
-    const groups = new Map<string, { name: string; notes: Set<number> }>();
-    for (const row of db.prepare(query).iterate() as IterableIterator<{ name: string | null; notePk: number }>) {
-      if (row.name == null) continue;
-      const key = tagKey(row.name);
-      const group = groups.get(key) ?? { name: row.name, notes: new Set<number>() };
-      // Lowest spelling wins as the display name, so the output does not
-      // depend on which row SQLite happened to return first.
-      if (row.name < group.name) group.name = row.name;
-      group.notes.add(row.notePk);
-      groups.set(key, group);
+interface TagTreeBuilder {
+  path: string;
+  direct: Set<number>;
+  all: Set<number>;
+  children: Map<string, TagTreeBuilder>;
+}
+
+const toTagTreeNode = (node: TagTreeBuilder): TagTreeNode => ({
+  name: node.path.slice(node.path.lastIndexOf("/") + 1),
+  path: node.path,
+  noteCount: node.direct.size,
+  totalNoteCount: node.all.size,
+  children: [...node.children.entries()]
+    .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0))
+    .map(([, child]) => toTagTreeNode(child)),
+});
+
+// The same tags as getAllTags, nested by `/`. Each tag's notes are added to
+// its own node and to every ancestor's rolled-up set, so a note tagged both
+// work/a and work/b counts once toward work. An ancestor that no live note
+// carries directly still appears, with a noteCount of 0, so every nested tag
+// has its full path of parents. Siblings are ordered by their folded segment.
+export const getTagTree = (db: Database = getDatabase()): TagTreeNode[] => {
+  try {
+    const root: TagTreeBuilder = { path: "", direct: new Set(), all: new Set(), children: new Map() };
+
+    for (const [key, group] of liveTagGroups(db)) {
+      const keySegments = key.split("/");
+      const nameSegments = group.name.split("/");
+
+      // Down from the root to the tag's own node, creating what is missing.
+      const leaf = keySegments.reduce((parent, segment, depth) => {
+        const path = nameSegments.slice(0, depth + 1).join("/");
+        let node = parent.children.get(segment);
+        if (!node) {
+          node = { path, direct: new Set(), all: new Set(), children: new Map() };
+          parent.children.set(segment, node);
+        } else if (depth === keySegments.length - 1) {
+          // An ancestor created on the way to a child takes its spelling from
+          // the child until the tag itself turns up.
+          node.path = path;
+        }
+        for (const notePk of group.notes) node.all.add(notePk);
+        return node;
+      }, root);
+
+      for (const notePk of group.notes) leaf.direct.add(notePk);
     }
 
-    return [...groups.entries()]
-      .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0))
-      .map(([, group]) => ({ name: group.name, noteCount: group.notes.size }));
+    return toTagTreeNode(root).children;
   } catch (error) {
     throw readError("Failed to get tags", error);
   }
 };
 
 export const listArchivedNotes = (
-  options: PageOptions = {},
+  options: ListOptions = {},
   db: Database = getDatabase()
 ): NotePage => {
+  const { clauses, params } = dateRangeClauses("n", resolveDateRange(options));
+  const order = resolveOrder(options);
+
   try {
     const limit = clampLimit(options.limit ?? DEFAULT_LIMIT, DEFAULT_LIMIT);
     const offset = clampOffset(options.offset ?? 0);
@@ -524,15 +1860,364 @@ export const listArchivedNotes = (
         n.ZUNIQUEIDENTIFIER as id,
         n.ZTITLE as title,
         ${timestampColumns("n")},
+        ${sortColumn(order.field)} as sortKey,
+        ${pinnedColumn(db, "n")},
         n.ZARCHIVED as isArchived
       FROM ZSFNOTE n
       WHERE n.ZARCHIVED = 1
         AND n.ZTRASHED IS NOT 1
-        AND ${addressableFilter("n")}
+        AND ${addressableFilter("n")}${clauses.map(clause => `\n        AND ${clause}`).join("")}
     `;
 
-    return pageInSql(db, { sql: query, params: [] }, limit, offset);
+    const orderBy = orderBySql(order);
+    return orderBy
+      ? pageInSql(db, { sql: query, params }, orderBy, limit, offset)
+      : pageInMemory(db, { sql: query, params }, [], order, limit, offset);
   } catch (error) {
     throw readError("Failed to list archived notes", error);
   }
 };
+
+export interface TrashOptions extends ListOptions {
+  // A literal, case-folded substring of the title or body, as in bear_search.
+  term?: string;
+  // The same, but of the title only.
+  title?: string;
+}
+
+// The trash, for finding a note again after it was trashed by mistake. A
+// trashed note is listed whatever its archived flag says, the same reading as
+// the in:trash query term. ZTRASHEDDATE is projected where Bear records it;
+// older databases lack the column, and their notes simply carry no trashedAt.
+export const listTrashedNotes = (options: TrashOptions = {}, db: Database = getDatabase()): NotePage => {
+  const { clauses, params } = dateRangeClauses("n", resolveDateRange(options));
+  const order = resolveOrder(options);
+
+  try {
+    const limit = clampLimit(options.limit ?? DEFAULT_LIMIT, DEFAULT_LIMIT);
+    const offset = clampOffset(options.offset ?? 0);
+    const term = options.term?.trim() || undefined;
+    const title = options.title?.trim() || undefined;
+
+    const columns = [
+      "n.ZUNIQUEIDENTIFIER as id",
+      "n.ZTITLE as title",
+      timestampColumns("n"),
+      `${sortColumn(order.field)} as sortKey`,
+      pinnedColumn(db, "n"),
+      "n.ZTRASHED as isTrashed",
+    ];
+    if (hasNoteColumn(db, "ZTRASHEDDATE")) columns.push(`${isoTimestamp("n.ZTRASHEDDATE")} as trashedAt`);
+    if (term) columns.push("n.ZTEXT as matchText");
+
+    const filters: RowFilter[] = [];
+    if (term) filters.push(matchesTerm(term));
+    if (title) filters.push(row => containsFolded(row.title ?? "", title));
+
+    const query = {
+      sql: `
+      SELECT
+        ${columns.join(",\n        ")}
+      FROM ZSFNOTE n
+      WHERE n.ZTRASHED = 1
+        AND ${addressableFilter("n")}${clauses.map(clause => `\n        AND ${clause}`).join("")}
+    `,
+      params,
+    };
+
+    const orderBy = orderBySql(order);
+    return filters.length > 0 || !orderBy
+      ? pageInMemory(db, query, filters, order, limit, offset)
+      : pageInSql(db, query, orderBy, limit, offset);
+  } catch (error) {
+    throw readError("Failed to list trashed notes", error);
+  }
+};
+
+// Checklist items across the live notes, most recently modified note first
+// and each note's items in body order, so a page reads like the notes do.
+export const listTodos = (options: TodoOptions = {}, db: Database = getDatabase()): TodoPage => {
+  const state = options.state ?? "open";
+
+  try {
+    const limit = clampLimit(options.limit ?? DEFAULT_LIMIT, DEFAULT_LIMIT);
+    const offset = clampOffset(options.offset ?? 0);
+    const term = options.term?.trim() || undefined;
+    const tagName = options.tag ? normalizeTagName(options.tag) : undefined;
+
+    const query = buildLiveNotesQuery(db, {
+      tagName,
+      includeDescendants: options.includeDescendants,
+      todoState: state === "all" ? undefined : state,
+      withMatchText: true,
+    });
+    if (!query) return { todos: [], count: 0, limit, offset, hasMore: false };
+
+    // Streamed without ORDER BY for the reason given on pageInMemory; only
+    // notes with a matching item are kept, and only their items.
+    const statement = db.prepare(query.sql);
+    const notes: { row: SearchRow; items: ChecklistItem[] }[] = [];
+    try {
+      for (const row of statement.iterate(...query.params) as IterableIterator<SearchRow>) {
+        const items = parseChecklist(row.matchText ?? "").filter(
+          item =>
+            (state === "all" || item.done === (state === "done")) && (!term || containsFolded(item.text, term))
+        );
+        if (items.length > 0) notes.push({ row: withoutQueryColumns(row), items });
+      }
+    } finally {
+      statement.finalize();
+    }
+
+    const bySort = compareRows(resolveOrder({}));
+    notes.sort((left, right) => bySort(left.row, right.row));
+    const todos = notes.flatMap(({ row, items }) =>
+      items.map(item => ({
+        noteId: addressableId(row),
+        noteTitle: row.title ?? "",
+        noteModifiedAt: row.modifiedAt,
+        ...item,
+      }))
+    );
+
+    const page = todos.slice(offset, offset + limit);
+    return { todos: page, count: page.length, limit, offset, hasMore: todos.length > offset + limit };
+  } catch (error) {
+    throw readError("Failed to list todos", error);
+  }
+};
+
+interface LinkedNote {
+  pk: number;
+  id: string;
+  title: string;
+  trashed?: number | null;
+}
+
+// Notes by titleKey(), the lookup a wiki link resolves against: the live
+// ones, or the trashed and archived ones a link may still point at. `also`
+// joins one more note, so links to a note outside the scope can still be
+// traced back to it.
+const notesByTitle = (db: Database, scope: "live" | "inactive", also?: LinkedNote): Map<string, LinkedNote[]> => {
+  const rows = db
+    .prepare(`
+      SELECT n.Z_PK as pk, n.ZUNIQUEIDENTIFIER as id, n.ZTITLE as title, n.ZTRASHED as trashed
+      FROM ZSFNOTE n
+      WHERE ${scope === "live" ? liveNotesFilter("n") : "(n.ZTRASHED = 1 OR n.ZARCHIVED = 1)"}
+        AND ${addressableFilter("n")}
+    `)
+    .all() as LinkedNote[];
+  if (also && !rows.some(row => row.pk === also.pk)) rows.push(also);
+
+  const byTitle = new Map<string, LinkedNote[]>();
+  for (const row of rows) {
+    const key = titleKey(row.title ?? "");
+    if (!key) continue;
+    byTitle.set(key, [...(byTitle.get(key) ?? []), row]);
+  }
+  return byTitle;
+};
+
+const linkStatus = (matches: number): LinkStatus =>
+  matches === 0 ? "missing" : matches === 1 ? "resolved" : "ambiguous";
+
+// A note's wiki links both ways. Outgoing links come from its own body.
+// Backlinks are found in the bodies of the notes linking to it: Bear's
+// ZSFNOTEBACKLINK index narrows those down where the database has one,
+// otherwise every live note with a `[[` is read. Either way the line is
+// taken from the body, so a link Bear's index still lists after it was
+// edited away is not reported. Returns null for an unknown id.
+export const getNoteLinks = (noteId: string, db: Database = getDatabase()): NoteLinks | null => {
+  try {
+    const note = db
+      .prepare(
+        "SELECT Z_PK as pk, ZUNIQUEIDENTIFIER as id, ZTITLE as title, ZTEXT as text FROM ZSFNOTE WHERE ZUNIQUEIDENTIFIER = ?"
+      )
+      .get(noteId) as (LinkedNote & { text: string | null }) | undefined;
+    if (!note) return null;
+
+    const byTitle = notesByTitle(db, "live", { pk: note.pk, id: note.id, title: note.title ?? "" });
+    const lookup = (key: string) => byTitle.get(key) ?? [];
+
+    const outgoing = parseWikiLinks(note.text ?? "").map(link => {
+      const { title, heading, matches } = resolveWikiLink(link.target, lookup);
+      const resolved: OutgoingLink = {
+        line: link.line,
+        target: link.target,
+        title,
+        status: linkStatus(matches.length),
+        noteIds: matches.map(match => match.id),
+      };
+      if (heading !== undefined) resolved.heading = heading;
+      return resolved;
+    });
+
+    const indexed = hasBacklinkTable(db);
+    const sourceFilter = indexed
+      ? "n.Z_PK IN (SELECT ZLINKEDBY FROM ZSFNOTEBACKLINK WHERE ZLINKINGTO = ?)"
+      : "instr(n.ZTEXT, '[[') > 0";
+    const sources = db
+      .prepare(`
+        SELECT n.ZUNIQUEIDENTIFIER as id, n.ZTITLE as title, n.ZTEXT as matchText, n.ZMODIFICATIONDATE as sortKey
+        FROM ZSFNOTE n
+        WHERE ${liveNotesFilter("n")} AND ${addressableFilter("n")} AND ${sourceFilter}
+      `)
+      .all(...(indexed ? [note.pk] : [])) as SearchRow[];
+    sources.sort(compareRows(resolveOrder({})));
+
+    const backlinks = sources.flatMap(source => {
+      const lines = (source.matchText ?? "").split("\n");
+      return parseWikiLinks(source.matchText ?? "")
+        .filter(link => resolveWikiLink(link.target, lookup).matches.some(match => match.pk === note.pk))
+        .map(link => ({
+          noteId: addressableId(source),
+          title: source.title ?? "",
+          line: link.line,
+          context: lines[link.line - 1].trim(),
+        }));
+    });
+
+    return { noteId: note.id, title: note.title ?? "", outgoing, backlinks };
+  } catch (error) {
+    throw readError("Failed to get note links", error);
+  }
+};
+
+// Every wiki link in the live notes that does not lead to exactly one live
+// note, grouped by the note it is written in. A link is read the way
+// bear_get_links reads it, against the live notes; only a link that names
+// none of them is looked up again among the trashed and archived ones. Pages
+// over source notes, most recently modified first.
+export const checkLinks = (options: LinkCheckOptions = {}, db: Database = getDatabase()): LinkCheckPage => {
+  try {
+    const limit = clampLimit(options.limit ?? DEFAULT_LIMIT, DEFAULT_LIMIT);
+    const offset = clampOffset(options.offset ?? 0);
+    const tagName = options.tag ? normalizeTagName(options.tag) : undefined;
+
+    const query = buildLiveNotesQuery(db, {
+      tagName,
+      includeDescendants: options.includeDescendants,
+      withWikiLinks: true,
+      withMatchText: true,
+    });
+    if (!query) return { notes: [], count: 0, limit, offset, hasMore: false };
+
+    const live = notesByTitle(db, "live");
+    const inactive = notesByTitle(db, "inactive");
+
+    const brokenLinks = (body: string): BrokenLink[] =>
+      parseWikiLinks(body).flatMap(link => {
+        let resolved = resolveWikiLink(link.target, key => live.get(key) ?? []);
+        let problem: LinkProblem | undefined = resolved.matches.length > 1 ? "ambiguous" : undefined;
+        if (resolved.matches.length === 0) {
+          resolved = resolveWikiLink(link.target, key => inactive.get(key) ?? []);
+          // An archived match wins: that note is still there to unarchive.
+          if (resolved.matches.length === 0) problem = "missing";
+          else problem = resolved.matches.every(match => match.trashed === 1) ? "trashed" : "archived";
+        }
+        if (!problem) return [];
+
+        const broken: BrokenLink = {
+          line: link.line,
+          target: link.target,
+          title: resolved.title,
+          problem,
+          noteIds: resolved.matches.map(match => match.id),
+        };
+        if (resolved.heading !== undefined) broken.heading = resolved.heading;
+        return [broken];
+      });
+
+    const statement = db.prepare(query.sql);
+    const found: { row: SearchRow; links: BrokenLink[] }[] = [];
+    try {
+      for (const row of statement.iterate(...query.params) as IterableIterator<SearchRow>) {
+        const links = brokenLinks(row.matchText ?? "");
+        if (links.length > 0) found.push({ row: withoutQueryColumns(row), links });
+      }
+    } finally {
+      statement.finalize();
+    }
+
+    const bySort = compareRows(resolveOrder({}));
+    found.sort((left, right) => bySort(left.row, right.row));
+    const notes = found
+      .slice(offset, offset + limit)
+      .map(({ row, links }) => ({ noteId: addressableId(row), title: row.title ?? "", links }));
+    return { notes, count: notes.length, limit, offset, hasMore: found.length > offset + limit };
+  } catch (error) {
+    throw readError("Failed to check links", error);
+  }
+};
+
+// The body of one note for the outline readers, or null for an unknown id.
+const readOutlineSource = (noteId: string, db: Database, action: string) => {
+  try {
+    return db
+      .prepare("SELECT ZUNIQUEIDENTIFIER as id, ZTITLE as title, ZTEXT as text FROM ZSFNOTE WHERE ZUNIQUEIDENTIFIER = ?")
+      .get(noteId) as { id: string; title: string | null; text: string | null } | undefined;
+  } catch (error) {
+    throw readError(action, error);
+  }
+};
+
+// A note's heading tree, so a long note can be read a section at a time.
+export const getNoteOutline = (noteId: string, db: Database = getDatabase()): NoteOutline | null => {
+  const note = readOutlineSource(noteId, db, "Failed to get note outline");
+  if (!note) return null;
+  const body = note.text ?? "";
+  return { noteId: note.id, title: note.title ?? "", chars: body.length, headings: parseOutline(body) };
+};
+
+// One section of a note. A heading that names no section or several throws
+// SectionError, as itself, outside the database error wrapping.
+export const getNoteSection = (noteId: string, heading: string, db: Database = getDatabase()): NoteSection | null => {
+  const note = readOutlineSource(noteId, db, "Failed to get note section");
+  if (!note) return null;
+  return { noteId: note.id, title: note.title ?? "", ...findSection(note.text ?? "", heading) };
+};
+
+// One attachment and its bytes, read from Bear's container. Null for an id
+// that names no attachment. Refused, rather than truncated, when the file is
+// not on this Mac (Bear syncs attachments lazily) or is over
+// MAX_ATTACHMENT_BYTES.
+export const getAttachment = (
+  attachmentId: string,
+  db: Database = getDatabase()
+): { attachment: Attachment; data: Buffer } | null => {
+  let attachment: Attachment | undefined;
+  try {
+    if (!hasFileTable(db)) return null;
+    [attachment] = noteAttachments(db, { fileId: attachmentId });
+  } catch (error) {
+    throw readError("Failed to get attachment", error);
+  }
+  if (!attachment) return null;
+
+  const { path } = attachment;
+  if (!path) {
+    throw new BearError(`Attachment ${attachmentId} cannot be located: the database is not a file on disk.`);
+  }
+
+  let size: number;
+  try {
+    size = statSync(path).size;
+  } catch {
+    throw new BearError(
+      `Attachment ${attachmentId} (${attachment.filename}) is not on this Mac. ` +
+        "Bear may not have downloaded it yet; opening the note in Bear fetches it."
+    );
+  }
+  if (size > MAX_ATTACHMENT_BYTES) {
+    throw new BearError(
+      `Attachment ${attachmentId} (${attachment.filename}) is ${size} bytes, over the ` +
+        `${MAX_ATTACHMENT_BYTES} byte limit for returning it. Open it from ${path} instead.`
+    );
+  }
+
+  try {
+    return { attachment, data: readFileSync(path) };
+  } catch (error) {
+    throw new BearError(`Attachment ${attachmentId} (${attachment.filename}) could not be read.`, error);
+  }
+};
@@ -1,7 +1,7 @@
 import { Database } from "bun:sqlite";
 import { existsSync } from "fs";
 import { homedir } from "os";
-import { join } from "path";
+import { dirname, join } from "path";
 
 // Possible database locations
 const DB_PATHS = [
@@ -17,6 +17,22 @@ const DB_PATHS = [
   )
 ];
 
+// Bear keeps attachments beside the database, under "Local Files": images in
+// "Note Images", everything else in "Note Files", each in a folder named after
+// the file's ZUNIQUEIDENTIFIER. The same layout in both locations above.
+const LOCAL_FILES = "Local Files";
+const ATTACHMENT_FOLDERS = { image: "Note Images", file: "Note Files" } as const;
+
+export type AttachmentKind = keyof typeof ATTACHMENT_FOLDERS;
+
+// Where an attachment lives on disk, for the database file at `databasePath`.
+export const attachmentPath = (
+  databasePath: string,
+  kind: AttachmentKind,
+  fileId: string,
+  filename: string
+): string => join(dirname(databasePath), LOCAL_FILES, ATTACHMENT_FOLDERS[kind], fileId, filename);
+
 export class DatabaseError extends Error {
   constructor(message: string, public readonly cause?: unknown) {
     super(message);
@@ -0,0 +1,72 @@
+import { test, expect, describe } from "bun:test";
+import { parseDateExpression, resolveDateRange, dateRangeClauses, DateRangeError } from "./date-range";
+import { CORE_DATA_EPOCH_OFFSET } from "./notes-query";
+
+// 2025-03-10T09:30:00Z, a Monday.
+const NOW = Date.UTC(2025, 2, 10, 9, 30);
+
+describe("parseDateExpression", () => {
+  test("ISO dates and months mean midnight, in UTC unless a zone is given", () => {
+    expect(parseDateExpression("2025-03-01")).toBe(Date.UTC(2025, 2, 1));
+    expect(parseDateExpression("2025-03")).toBe(Date.UTC(2025, 2, 1));
+    expect(parseDateExpression("2025-03-01", "Europe/Stockholm")).toBe(Date.UTC(2025, 1, 28, 23));
+  });
+
+  test("a wall-clock time is read in the zone; an explicit offset overrides it", () => {
+    expect(parseDateExpression("2025-07-01T14:30", "Europe/Stockholm")).toBe(Date.UTC(2025, 6, 1, 12, 30));
+    expect(parseDateExpression("2025-07-01T14:30:00Z", "Europe/Stockholm")).toBe(Date.UTC(2025, 6, 1, 14, 30));
+    expect(parseDateExpression("2025-07-01T14:30:00-05:00")).toBe(Date.UTC(2025, 6, 1, 19, 30));
+  });
+
+  test("midnight on a DST change day uses that day's offset", () => {
+    // Clocks in New York go forward on 2025-03-09; midnight is still EST.
+    expect(parseDateExpression("2025-03-09", "America/New_York")).toBe(Date.UTC(2025, 2, 9, 5));
+    expect(parseDateExpression("2025-03-10", "America/New_York")).toBe(Date.UTC(2025, 2, 10, 4));
+  });
+
+  test("today / yesterday / tomorrow are midnights in the zone, not 24h steps from now", () => {
+    expect(parseDateExpression("today", "UTC", NOW)).toBe(Date.UTC(2025, 2, 10));
+    expect(parseDateExpression("Yesterday", "UTC", NOW)).toBe(Date.UTC(2025, 2, 9));
+    // 09:30 UTC is 18:30 on the 10th in Tokyo, whose midnight was 15:00 UTC the day before.
+    expect(parseDateExpression("today", "Asia/Tokyo", NOW)).toBe(Date.UTC(2025, 2, 9, 15));
+    expect(parseDateExpression("tomorrow", "America/Los_Angeles", NOW)).toBe(Date.UTC(2025, 2, 11, 7));
+  });
+
+  test("spans count back from now", () => {
+    expect(parseDateExpression("now", "UTC", NOW)).toBe(NOW);
+    expect(parseDateExpression("12h", "UTC", NOW)).toBe(NOW - 12 * 3_600_000);
+    expect(parseDateExpression("7d", "UTC", NOW)).toBe(Date.UTC(2025, 2, 3, 9, 30));
+    expect(parseDateExpression("2W", "UTC", NOW)).toBe(Date.UTC(2025, 1, 24, 9, 30));
+  });
+
+  test("unreadable dates, impossible dates and unknown zones are refused", () => {
+    expect(() => parseDateExpression("last week")).toThrow(DateRangeError);
+    expect(() => parseDateExpression("03/01/2025")).toThrow(/Cannot read/);
+    expect(() => parseDateExpression("2025-02-30")).toThrow(/not a valid date/);
+    expect(() => parseDateExpression("2025-13")).toThrow(/not a valid date/);
+    expect(() => parseDateExpression("constructor")).toThrow(/Cannot read/);
+    expect(() => parseDateExpression("today", "Mars/Olympus")).toThrow(/Unknown time zone/);
+  });
+});
+
+describe("resolveDateRange", () => {
+  test("converts to Core Data seconds and skips blank bounds", () => {
+    expect(resolveDateRange({ createdAfter: "2001-01-01T00:00:00Z", modifiedBefore: "  " })).toEqual({
+      createdAfter: 0,
+    });
+    expect(resolveDateRange({ modifiedAfter: "1970-01-01" })).toEqual({ modifiedAfter: -CORE_DATA_EPOCH_OFFSET });
+  });
+
+  test("checks the time zone even when no bound uses it", () => {
+    expect(() => resolveDateRange({ timeZone: "Nowhere" })).toThrow(/Unknown time zone/);
+  });
+});
+
+describe("dateRangeClauses", () => {
+  test("after is inclusive, before exclusive, with parameters in clause order", () => {
+    expect(dateRangeClauses("n", { createdBefore: 2, modifiedAfter: 3 })).toEqual({
+      clauses: ["n.ZCREATIONDATE < ?", "n.ZMODIFICATIONDATE >= ?"],
+      params: [2, 3],
+    });
+  });
+});
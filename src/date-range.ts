@@ -0,0 +1,212 @@
+// Date range filters for the list tools: createdAfter / createdBefore /
+// modifiedAfter / modifiedBefore. Pure functions apart from reading the
+// clock: the expressions are resolved here to Core Data seconds, and the SQL
+// compares the raw ZCREATIONDATE / ZMODIFICATIONDATE columns against them, so
+// the filter runs in the database and SQL paging keeps working.
+//
+// Accepted expressions:
+//
+//   2025-03-01                   midnight at the start of that day
+//   2025-03                      midnight at the start of that month
+//   2025-03-01T14:30[:00[.000]]  that wall-clock time
+//   2025-03-01T14:30:00Z         an absolute instant (Z or ±HH:MM)
+//   today, yesterday, tomorrow   midnight at the start of that day
+//   now, 12h, 7d, 2w             now, or that long before now
+//
+// Anything without its own offset -- a date, a wall-clock time, "today" -- is
+// read in an explicit IANA time zone, UTC unless the caller names another.
+// Not the server's own zone: the timestamps the tools return are UTC, and a
+// filter that silently meant something else would disagree with them.
+//
+// "After" bounds are inclusive and "before" bounds exclusive, so "created in
+// March 2025" is createdAfter 2025-03 and createdBefore 2025-04 with no
+// overlap at midnight.
+
+import { CORE_DATA_EPOCH_OFFSET } from "./notes-query.js";
+
+export interface DateRangeOptions {
+  createdAfter?: string;
+  createdBefore?: string;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  // IANA name, e.g. "Europe/Stockholm". Defaults to UTC.
+  timeZone?: string;
+}
+
+// The same four bounds resolved to Core Data seconds.
+export interface DateBounds {
+  createdAfter?: number;
+  createdBefore?: number;
+  modifiedAfter?: number;
+  modifiedBefore?: number;
+}
+
+// A date expression or time zone that cannot be read. Thrown rather than
+// ignored, so a typo does not quietly widen the search to every date.
+export class DateRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DateRangeError";
+  }
+}
+
+const DEFAULT_TIME_ZONE = "UTC";
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+const DURATION_MS: Record<string, number> = { h: HOUR_MS, d: DAY_MS, w: 7 * DAY_MS };
+const DAY_SHIFT: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+
+const ISO = /^(\d{4})-(\d{2})(?:-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?(Z|[+-]\d{2}:?\d{2})?)?)?$/i;
+const RELATIVE = /^(\d+)\s*([hdw])$/i;
+
+const zoneFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  } catch {
+    throw new DateRangeError(`Unknown time zone '${timeZone}'. Use an IANA name such as Europe/Stockholm.`);
+  }
+};
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const wallClockAt = (instant: number, formatter: Intl.DateTimeFormat): WallClock => {
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(part => [part.type, part.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    millisecond: 0,
+  };
+};
+
+const asUtc = (clock: WallClock): number =>
+  Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second, clock.millisecond);
+
+// The instant at which the zone's clocks show `clock`. The zone's offset is
+// taken at a first guess and then again at the result, which settles it
+// across a DST change; a wall-clock time skipped by the change resolves to
+// the instant just after the gap.
+const zonedInstant = (clock: WallClock, formatter: Intl.DateTimeFormat): number => {
+  const target = asUtc(clock);
+  const offsetAt = (instant: number): number => asUtc(wallClockAt(instant, formatter)) - Math.floor(instant / 1000) * 1000;
+  const guess = target - offsetAt(target);
+  return target - offsetAt(guess);
+};
+
+const parseOffset = (offset: string): number => {
+  if (offset.toUpperCase() === "Z") return 0;
+  const digits = offset.replace(":", "");
+  const minutes = Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5));
+  return (digits[0] === "-" ? -1 : 1) * minutes * 60_000;
+};
+
+// Resolves one expression to a Unix time in milliseconds.
+export const parseDateExpression = (input: string, timeZone = DEFAULT_TIME_ZONE, now = Date.now()): number => {
+  const formatter = zoneFormatter(timeZone);
+  const expression = input.trim().toLowerCase();
+
+  if (expression === "now") return now;
+
+  if (Object.hasOwn(DAY_SHIFT, expression)) {
+    const today = wallClockAt(now, formatter);
+    return zonedInstant(
+      { ...today, day: today.day + DAY_SHIFT[expression], hour: 0, minute: 0, second: 0, millisecond: 0 },
+      formatter
+    );
+  }
+
+  const relative = RELATIVE.exec(expression);
+  if (relative) return now - Number(relative[1]) * DURATION_MS[relative[2]];
+
+  const iso = ISO.exec(input.trim());
+  if (!iso) {
+    throw new DateRangeError(
+      `Cannot read '${input}' as a date. Use ISO-8601 (2025-03-01, 2025-03-01T14:30Z), ` +
+        "today / yesterday / tomorrow, now, or a span before now such as 12h, 7d or 2w."
+    );
+  }
+
+  const [, year, month, day = "1", hour = "0", minute = "0", second = "0", fraction = "0", offset] = iso;
+  const clock: WallClock = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+    millisecond: Number(fraction.padEnd(3, "0")),
+  };
+
+  // Date.UTC rolls 2025-02-30 over into March; a date that does not survive
+  // the round trip did not exist.
+  const check = new Date(asUtc(clock));
+  if (
+    check.getUTCFullYear() !== clock.year ||
+    check.getUTCMonth() !== clock.month - 1 ||
+    check.getUTCDate() !== clock.day ||
+    check.getUTCHours() !== clock.hour ||
+    check.getUTCMinutes() !== clock.minute ||
+    clock.second > 59
+  ) {
+    throw new DateRangeError(`'${input}' is not a valid date.`);
+  }
+
+  return offset ? asUtc(clock) - parseOffset(offset) : zonedInstant(clock, formatter);
+};
+
+const toCoreDataSeconds = (unixMs: number): number => unixMs / 1000 - CORE_DATA_EPOCH_OFFSET;
+
+// Resolves every bound the caller set. Blank strings mean "no bound", the
+// same rule as a blank term. The time zone is checked even when no bound
+// needs it, so a misspelled zone is reported the first time it is passed.
+export const resolveDateRange = (options: DateRangeOptions, now = Date.now()): DateBounds => {
+  const timeZone = options.timeZone?.trim() || DEFAULT_TIME_ZONE;
+  zoneFormatter(timeZone);
+
+  const bounds: DateBounds = {};
+  for (const key of ["createdAfter", "createdBefore", "modifiedAfter", "modifiedBefore"] as const) {
+    const value = options[key]?.trim();
+    if (value) bounds[key] = toCoreDataSeconds(parseDateExpression(value, timeZone, now));
+  }
+  return bounds;
+};
+
+// SQL conditions for the resolved bounds, one placeholder each, in the same
+// order as `params`. Compared against the raw columns so an index on either
+// date could serve them; a note with a NULL date fails every bound on it.
+export const dateRangeClauses = (alias: string, bounds: DateBounds): { clauses: string[]; params: number[] } => {
+  const column = alias ? `${alias}.` : "";
+  const clauses: string[] = [];
+  const params: number[] = [];
+  const add = (sql: string, value: number | undefined) => {
+    if (value === undefined) return;
+    clauses.push(sql);
+    params.push(value);
+  };
+  add(`${column}ZCREATIONDATE >= ?`, bounds.createdAfter);
+  add(`${column}ZCREATIONDATE < ?`, bounds.createdBefore);
+  add(`${column}ZMODIFICATIONDATE >= ?`, bounds.modifiedAfter);
+  add(`${column}ZMODIFICATIONDATE < ?`, bounds.modifiedBefore);
+  return { clauses, params };
+};
@@ -0,0 +1,38 @@
+import { test, expect, describe } from "bun:test";
+import { unifiedDiff } from "./diff";
+
+const lettered = (count: number) => Array.from({ length: count }, (_, index) => String.fromCharCode(97 + index));
+
+describe("unifiedDiff", () => {
+  test("is empty when nothing changed", () => {
+    expect(unifiedDiff("same\ntext", "same\ntext", "N")).toBe("");
+  });
+
+  test("shows a changed line with three lines of context, as diff -u does", () => {
+    const before = lettered(8).join("\n");
+    const after = before.replace("e", "E");
+    expect(unifiedDiff(before, after, "N")).toBe(
+      ["--- a/N", "+++ b/N", "@@ -2,7 +2,7 @@", " b", " c", " d", "-e", "+E", " f", " g", " h"].join("\n")
+    );
+  });
+
+  test("splits changes far apart into separate hunks", () => {
+    const before = lettered(13).join("\n");
+    const after = before.replace("b", "B").replace("l", "L");
+    expect(unifiedDiff(before, after, "N").split("\n").filter(line => line.startsWith("@@"))).toEqual([
+      "@@ -1,5 +1,5 @@",
+      "@@ -9,5 +9,5 @@",
+    ]);
+  });
+
+  test("numbers a pure insertion at the top from line 0 on the old side", () => {
+    expect(unifiedDiff("x", "new\nx", "N")).toBe(["--- a/N", "+++ b/N", "@@ -1,1 +1,2 @@", "+new", " x"].join("\n"));
+    expect(unifiedDiff("", "new", "N")).toContain("@@ -1,1 +1,1 @@");
+  });
+
+  test("keeps lines common to both sides in a rewritten middle", () => {
+    expect(unifiedDiff("a\nx\nb\ny\nc", "a\nb\nc", "N")).toBe(
+      ["--- a/N", "+++ b/N", "@@ -1,5 +1,3 @@", " a", "-x", " b", "-y", " c"].join("\n")
+    );
+  });
+});
@@ -0,0 +1,109 @@
+// Unified diffs of a note body before and after an edit, so a caller can see
+// exactly what a write changes. Pure functions, no SQL.
+//
+// Line-based, in the format `diff -u` and git print: `---`/`+++` headers,
+// `@@ -start,count +start,count @@` hunks, three lines of context.
+
+type LineOp = { kind: " " | "-" | "+"; text: string };
+
+export const DIFF_CONTEXT_LINES = 3;
+
+// Past this many cells the longest-common-subsequence table is not built and
+// the changed middle is shown as removed, then added. Edits touch a few lines
+// of a note, and the unchanged lines around them are peeled off first, so
+// this only caps a pathological rewrite.
+const MAX_TABLE_CELLS = 4_000_000;
+
+// The lines of `before` and `after` as kept, removed and added, in order.
+const lineOps = (before: string[], after: string[]): LineOp[] => {
+  let head = 0;
+  while (head < before.length && head < after.length && before[head] === after[head]) head += 1;
+  let tail = 0;
+  while (
+    tail < before.length - head &&
+    tail < after.length - head &&
+    before[before.length - 1 - tail] === after[after.length - 1 - tail]
+  ) {
+    tail += 1;
+  }
+
+  const removed = before.slice(head, before.length - tail);
+  const added = after.slice(head, after.length - tail);
+  const kept = (lines: string[]) => lines.map((text): LineOp => ({ kind: " ", text }));
+  const middle: LineOp[] = [];
+
+  if (removed.length * added.length > MAX_TABLE_CELLS) {
+    middle.push(...removed.map((text): LineOp => ({ kind: "-", text })));
+    middle.push(...added.map((text): LineOp => ({ kind: "+", text })));
+  } else {
+    // lcs[i][j]: the longest common subsequence of removed[i..] and added[j..].
+    const width = added.length + 1;
+    const lcs = new Uint32Array((removed.length + 1) * width);
+    for (let i = removed.length - 1; i >= 0; i -= 1) {
+      for (let j = added.length - 1; j >= 0; j -= 1) {
+        lcs[i * width + j] =
+          removed[i] === added[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < removed.length || j < added.length) {
+      if (i < removed.length && j < added.length && removed[i] === added[j]) {
+        middle.push({ kind: " ", text: removed[i] });
+        i += 1;
+        j += 1;
+      } else if (j >= added.length || (i < removed.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        middle.push({ kind: "-", text: removed[i] });
+        i += 1;
+      } else {
+        middle.push({ kind: "+", text: added[j] });
+        j += 1;
+      }
+    }
+  }
+
+  return [...kept(before.slice(0, head)), ...middle, ...kept(before.slice(before.length - tail))];
+};
+
+// A unified diff from `before` to `after`, headed `a/<label>` and
+// `b/<label>`. Empty when nothing changed.
+export const unifiedDiff = (before: string, after: string, label: string): string => {
+  if (before === after) return "";
+
+  // Each op with the old and new line numbers it sits at.
+  let oldLine = 1;
+  let newLine = 1;
+  const rows = lineOps(before.split("\n"), after.split("\n")).map(op => {
+    const row = { ...op, oldLine, newLine };
+    if (op.kind !== "+") oldLine += 1;
+    if (op.kind !== "-") newLine += 1;
+    return row;
+  });
+  const changes = rows.flatMap((row, index) => (row.kind === " " ? [] : [index]));
+
+  const lines = [`--- a/${label}`, `+++ b/${label}`];
+  for (let next = 0; next < changes.length; ) {
+    const first = changes[next];
+    let last = first;
+    // Changes close enough to share their context lines share a hunk.
+    while (next + 1 < changes.length && changes[next + 1] - last - 1 <= 2 * DIFF_CONTEXT_LINES) {
+      next += 1;
+      last = changes[next];
+    }
+    next += 1;
+
+    const hunk = rows.slice(Math.max(0, first - DIFF_CONTEXT_LINES), last + DIFF_CONTEXT_LINES + 1);
+    const oldCount = hunk.filter(row => row.kind !== "+").length;
+    const newCount = hunk.filter(row => row.kind !== "-").length;
+    // An added line does not move the old numbering, nor a removed one the
+    // new, so the first row carries both starts. An empty side is numbered by
+    // the line before it, as diff -u does.
+    const oldStart = oldCount > 0 ? hunk[0].oldLine : hunk[0].oldLine - 1;
+    const newStart = newCount > 0 ? hunk[0].newLine : hunk[0].newLine - 1;
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    lines.push(...hunk.map(row => `${row.kind}${row.text}`));
+  }
+  return lines.join("\n");
+};
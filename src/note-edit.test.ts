@@ -0,0 +1,61 @@
+import { test, expect, describe } from "bun:test";
+import { applyEdits, findMatches, replaceAllMatches, EditError } from "./note-edit";
+
+const NOTE = "# Plan\nShip the beta.\nTest the beta.\nMöte on Friday.";
+
+describe("findMatches", () => {
+  test("finds exact occurrences, not overlapping", () => {
+    expect(findMatches("aaaa", "aa")).toEqual([
+      { start: 0, end: 2 },
+      { start: 2, end: 4 },
+    ]);
+    expect(findMatches(NOTE, "BETA")).toEqual([]);
+  });
+
+  test("folded matching ignores case and Unicode form", () => {
+    expect(findMatches(NOTE, "BETA", { folded: true })).toHaveLength(2);
+    expect(findMatches("möte", "MÖTE", { folded: true })).toEqual([{ start: 0, end: 5 }]);
+  });
+});
+
+describe("applyEdits", () => {
+  test("replaces a unique occurrence and leaves everything else as it was", () => {
+    expect(applyEdits(NOTE, [{ find: "Friday", replace: "Monday" }])).toBe(NOTE.replace("Friday", "Monday"));
+  });
+
+  test("applies edits in order, each to the result of the one before", () => {
+    const edits = [
+      { find: "Ship", replace: "Release" },
+      { find: "Release the", replace: "Release our" },
+    ];
+    expect(applyEdits(NOTE, edits)).toContain("Release our beta.");
+  });
+
+  test("occurrence picks one of several", () => {
+    expect(applyEdits(NOTE, [{ find: "beta", replace: "GA", occurrence: 2 }])).toContain("Ship the beta.\nTest the GA.");
+  });
+
+  test("refuses an ambiguous find, naming the lines", () => {
+    expect(() => applyEdits(NOTE, [{ find: "beta", replace: "GA" }])).toThrow(
+      'Edit 1 ("beta") is ambiguous: it occurs 2 times, on lines 2, 3.'
+    );
+  });
+
+  test("refuses a missing find, pointing at folded when that would match", () => {
+    expect(() => applyEdits(NOTE, [{ find: "nowhere", replace: "" }])).toThrow(EditError);
+    expect(() => applyEdits(NOTE, [{ find: "friday", replace: "x" }])).toThrow("pass folded");
+    expect(() => applyEdits(NOTE, [{ find: "beta", replace: "x", occurrence: 3 }])).toThrow("occurs 2 times");
+  });
+
+  test("folded matching replaces the text as stored", () => {
+    expect(applyEdits("möte x", [{ find: "MÖTE", replace: "meeting" }], { folded: true })).toBe("meeting x");
+  });
+});
+
+describe("replaceAllMatches", () => {
+  test("replaces every occurrence and counts them", () => {
+    expect(replaceAllMatches(NOTE, "beta", "GA")).toEqual({ text: NOTE.replaceAll("beta", "GA"), count: 2 });
+    expect(replaceAllMatches(NOTE, "BETA", "GA")).toEqual({ text: NOTE, count: 0 });
+    expect(replaceAllMatches(NOTE, "BETA", "GA", { folded: true }).count).toBe(2);
+  });
+});
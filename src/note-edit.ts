@@ -0,0 +1,102 @@
+// Find-and-replace edits to a note body. Pure functions, no SQL: the stored
+// body in, the edited body out.
+//
+// Each edit replaces one occurrence of its `find` text, and the edits apply
+// in order, each to the result of the one before. Matching is exact unless
+// folded matching is asked for, which uses text-match.ts's folding, so
+// `MÖTE` then finds "möte". Everything outside the matched text is left as it
+// was, character for character.
+
+import { findFolded, type TextRange } from "./text-match.js";
+
+// A find that is not in the note, or is there more than once with nothing to
+// say which occurrence was meant. Thrown rather than guessed around, so an
+// edit never lands on text the caller did not mean; nothing is sent.
+export class EditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EditError";
+  }
+}
+
+export interface TextEdit {
+  find: string;
+  replace: string;
+  // Which occurrence to replace, 1-based. Without it, `find` must occur
+  // exactly once.
+  occurrence?: number;
+}
+
+export interface MatchOptions {
+  // Case-insensitive, Unicode-normalized matching instead of exact.
+  folded?: boolean;
+}
+
+// Every occurrence of `find`, left to right and not overlapping.
+export const findMatches = (text: string, find: string, options: MatchOptions = {}): TextRange[] => {
+  if (!find) return [];
+  if (options.folded) return findFolded(text, find);
+  const ranges: TextRange[] = [];
+  for (let at = text.indexOf(find); at !== -1; at = text.indexOf(find, at + find.length)) {
+    ranges.push({ start: at, end: at + find.length });
+  }
+  return ranges;
+};
+
+const lineAt = (text: string, offset: number): number => text.slice(0, offset).split("\n").length;
+
+const pickMatch = (text: string, edit: TextEdit, position: number, options: MatchOptions): TextRange => {
+  const label = `Edit ${position} ("${edit.find}")`;
+  const matches = findMatches(text, edit.find, options);
+
+  if (matches.length === 0) {
+    const hint =
+      !options.folded && findMatches(text, edit.find, { folded: true }).length > 0
+        ? " It does occur with different case or Unicode form; pass folded to match that."
+        : "";
+    throw new EditError(`${label} was not found in the note.${hint}`);
+  }
+  if (edit.occurrence !== undefined) {
+    const match = matches[edit.occurrence - 1];
+    if (!match) {
+      throw new EditError(
+        `${label} asks for occurrence ${edit.occurrence}, but the text occurs ${matches.length} ` +
+          `time${matches.length === 1 ? "" : "s"}.`
+      );
+    }
+    return match;
+  }
+  if (matches.length > 1) {
+    const lines = matches.map(match => lineAt(text, match.start));
+    throw new EditError(
+      `${label} is ambiguous: it occurs ${matches.length} times, on lines ${lines.join(", ")}. ` +
+        "Give occurrence to pick one, or include more surrounding text in find."
+    );
+  }
+  return matches[0];
+};
+
+// The body with every edit applied, or EditError naming the first edit that
+// could not be placed.
+export const applyEdits = (body: string, edits: TextEdit[], options: MatchOptions = {}): string =>
+  edits.reduce((text, edit, index) => {
+    const match = pickMatch(text, edit, index + 1, options);
+    return text.slice(0, match.start) + edit.replace + text.slice(match.end);
+  }, body);
+
+// Every occurrence of `find` replaced, and how many there were.
+export const replaceAllMatches = (
+  text: string,
+  find: string,
+  replace: string,
+  options: MatchOptions = {}
+): { text: string; count: number } => {
+  const matches = findMatches(text, find, options);
+  let result = "";
+  let from = 0;
+  for (const match of matches) {
+    result += text.slice(from, match.start) + replace;
+    from = match.end;
+  }
+  return { text: result + text.slice(from), count: matches.length };
+};
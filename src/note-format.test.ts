@@ -1,5 +1,5 @@
 import { test, expect, describe } from "bun:test";
-import { renderNoteMarkdown, buildBearUrl, normalizeTagName, tagKey, sameTag } from "./note-format";
+import { renderNoteMarkdown, buildBearUrl, normalizeTagName, tagKey, sameTag, removeTagFromText } from "./note-format";
 
 // The one place the tag-identity rule itself is pinned. The cross-path
 // consistency it guarantees (searchNotes vs listNotesByTag vs getAllTags) is
@@ -114,6 +114,41 @@ describe("normalizeTagName", () => {
   });
 });
 
+describe("removeTagFromText", () => {
+  test("takes the tag and one separating space out of a line", () => {
+    expect(removeTagFromText("# T\nsee #work and #home", "work")).toEqual({ text: "# T\nsee and #home", count: 1 });
+    expect(removeTagFromText("# T\n#work #home", "#work").text).toBe("# T\n#home");
+  });
+
+  test("drops a tag line left with nothing on it", () => {
+    expect(removeTagFromText("# T\n#work\n\nbody", "work").text).toBe("# T\n\nbody");
+  });
+
+  test("matches the tag in any case, and before sentence punctuation", () => {
+    expect(removeTagFromText("# T\nfiled under #Work.", "work").text).toBe("# T\nfiled under.");
+  });
+
+  test("leaves nested tags below it and longer names alone", () => {
+    const text = "# T\n#work/clients #workshop email#work";
+    expect(removeTagFromText(text, "work")).toEqual({ text, count: 0 });
+    expect(removeTagFromText(text, "work/clients").text).toBe("# T\n#workshop email#work");
+  });
+
+  test("removes the multiword form renderTag writes, but not its first word alone", () => {
+    expect(removeTagFromText("# T\n#my tag# #home", "my tag").text).toBe("# T\n#home");
+    expect(removeTagFromText("# T\n#my tag#", "my").count).toBe(0);
+  });
+
+  test("a name ending in # is matched as itself", () => {
+    expect(removeTagFromText("# T\nlearn #c# today", "c#").text).toBe("# T\nlearn today");
+  });
+
+  test("leaves fenced code alone", () => {
+    const text = "# T\n```\n#work\n```\n#work";
+    expect(removeTagFromText(text, "work")).toEqual({ text: "# T\n```\n#work\n```", count: 1 });
+  });
+});
+
 describe("buildBearUrl", () => {
   test("always appends show_window=no", () => {
     expect(buildBearUrl("trash", { id: "ABC" }))
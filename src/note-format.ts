@@ -1,9 +1,11 @@
 // Pure note-formatting and tag-spelling logic. No side effects: parts in,
-// strings out. This is the test surface for how a Bear note is structured,
-// how a bear://x-callback-url is built, and what makes two tag spellings the
-// same tag. Execution lives behind the runner seam in bear.ts.
+// strings out. This is the test surface for how a Bear note is structured, how
+// a bear://x-callback-url is built, how tags are read out of text, and what
+// makes two tag spellings the same tag. Execution lives behind the runner seam
+// in bear.ts.
 
 import { equalsFolded, foldForMatch } from "./text-match.js";
+import { proseLines } from "./note-lines.js";
 
 export interface NoteParts {
   title: string;
@@ -40,16 +42,109 @@ export const tagKey = (name: string): string => foldForMatch(name);
 
 export const sameTag = (left: string, right: string): boolean => equalsFolded(left, right);
 
+// Bear nests tags with `/`: "work/clients/acme" sits under "work/clients",
+// which sits under "work". True when `name` is `ancestor` itself or any tag
+// below it, under the same folded identity as sameTag. A shared prefix is not
+// enough: "workshop" is not under "work".
+export const isTagOrDescendant = (name: string, ancestor: string): boolean => {
+  const key = tagKey(name);
+  const ancestorKey = tagKey(ancestor);
+  return key === ancestorKey || key.startsWith(`${ancestorKey}/`);
+};
+
 // Renders one tag in Bear's syntax. A tag containing whitespace needs a
 // closing hash (`#my tag#`) or Bear terminates it at the first space and
 // leaves the rest sitting in the note body as plain text. Nested tags use `/`
 // and are left alone. A tag that normalizes to nothing is dropped.
-const renderTag = (tag: string): string | undefined => {
+export const renderTag = (tag: string): string | undefined => {
   const name = normalizeTagName(tag);
   if (!name) return undefined;
   return /\s/.test(name) ? `#${name}#` : `#${name}`;
 };
 
+export interface TagToken {
+  name: string;
+  // Offsets into the text, `end` exclusive, covering the `#` markers.
+  start: number;
+  end: number;
+}
+
+const isSpace = (char: string | undefined): boolean => char !== undefined && /\s/.test(char);
+
+// Punctuation that ends a sentence rather than belonging to the tag:
+// "see #work." tags `work`, not `work.`.
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+
+// Finds tags in text the way Bear reads them. A `#` starts a tag only at the
+// start of the text or after whitespace, and only when a non-space, non-`#`
+// character follows, so "# Title" and "## Heading" are headings and "c#" is
+// not a tag. A closing `#` on the same line makes a multiword tag, but only
+// when the enclosed name contains whitespace -- the same rule normalizeTagName
+// applies to caller input, which keeps "#c#" a single-word tag named `c#`.
+export const findTags = (text: string): TagToken[] => {
+  const tokens: TagToken[] = [];
+  let index = 0;
+
+  while ((index = text.indexOf("#", index)) !== -1) {
+    const next = text[index + 1];
+    if ((index > 0 && !isSpace(text[index - 1])) || next === undefined || isSpace(next) || next === "#") {
+      index += 1;
+      continue;
+    }
+
+    const newline = text.indexOf("\n", index);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const closing = text.indexOf("#", index + 1);
+    if (closing !== -1 && closing < lineEnd) {
+      const enclosed = text.slice(index + 1, closing);
+      const terminated = closing + 1 === text.length || isSpace(text[closing + 1]);
+      if (/\s/.test(enclosed) && !isSpace(enclosed[enclosed.length - 1]) && terminated) {
+        tokens.push({ name: enclosed, start: index, end: closing + 1 });
+        index = closing + 1;
+        continue;
+      }
+    }
+
+    let end = index + 1;
+    while (end < text.length && !isSpace(text[end])) end += 1;
+    const word = text.slice(index + 1, end).replace(TRAILING_PUNCTUATION, "");
+    if (word) tokens.push({ name: word, start: index, end: index + 1 + word.length });
+    index = end;
+  }
+
+  return tokens;
+};
+
+// The text with every occurrence of one tag taken out, as findTags reads
+// them: `#name`, or `#multi word#` for a name with whitespace, matched with
+// the tag-identity rule, so `#Work` goes too but nested tags below it stay.
+// Fenced code is left alone. One separating space goes with each tag, and a
+// line left blank is dropped, which is what becomes of a tag line whose only
+// tag this was.
+export const removeTagFromText = (text: string, tag: string): { text: string; count: number } => {
+  const name = normalizeTagName(tag);
+  if (!name) return { text, count: 0 };
+
+  const lines = text.split("\n");
+  const dropped = new Set<number>();
+  let count = 0;
+  for (const { number } of proseLines(text)) {
+    let line = lines[number - 1];
+    const tokens = findTags(line).filter(token => sameTag(token.name, name));
+    if (tokens.length === 0) continue;
+    // Right to left, so earlier offsets stay valid.
+    for (const { start, end } of tokens.reverse()) {
+      const from = start > 0 ? start - 1 : start;
+      const to = start > 0 || !isSpace(line[end]) ? end : end + 1;
+      line = line.slice(0, from) + line.slice(to);
+    }
+    count += tokens.length;
+    if (line.trim()) lines[number - 1] = line;
+    else dropped.add(number);
+  }
+  return { text: lines.filter((_, index) => !dropped.has(index + 1)).join("\n"), count };
+};
+
 const renderTags = (tags?: string[]): string =>
   (tags ?? [])
     .map(renderTag)
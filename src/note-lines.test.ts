@@ -0,0 +1,32 @@
+import { test, expect, describe } from "bun:test";
+import { proseLines, headingOf } from "./note-lines";
+
+describe("proseLines", () => {
+  test("numbers lines from 1 and strips a carriage return", () => {
+    expect(proseLines("# Title\r\nbody")).toEqual([
+      { number: 1, text: "# Title" },
+      { number: 2, text: "body" },
+    ]);
+  });
+
+  test("leaves out fenced code, fences included, closing only on a matching fence", () => {
+    const body = "a\n````js\nb\n```\nc\n````\nd\n~~~\ne\n~~~";
+    expect(proseLines(body).map(line => line.text)).toEqual(["a", "d"]);
+  });
+
+  test("a fence with text after it does not close the block", () => {
+    expect(proseLines("```\n``` not a close\nx\n```\ny").map(line => line.text)).toEqual(["y"]);
+  });
+});
+
+describe("headingOf", () => {
+  test("reads the level and text, without a closing sequence", () => {
+    expect(headingOf("## Risks")).toEqual({ level: 2, text: "Risks" });
+    expect(headingOf("### Done ###")).toEqual({ level: 3, text: "Done" });
+  });
+
+  test("a tag or a run of more than six markers is not a heading", () => {
+    expect(headingOf("#work")).toBeUndefined();
+    expect(headingOf("####### seven")).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+// The line structure of a note body that the todo, link, outline and
+// relevance readers share.
+// Pure functions, no SQL.
+//
+// Line numbers are 1-based and count the title line, so they address the
+// same line in ZTEXT that Bear shows. Lines inside a fenced code block are
+// left out: a note quoting Markdown source holds no real todos, links or
+// headings.
+
+export interface NoteLine {
+  number: number;
+  // Without a trailing carriage return.
+  text: string;
+}
+
+export interface Heading {
+  level: number;
+  text: string;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+// Every line outside fenced code, fence lines included in what is left out.
+export const proseLines = (body: string): NoteLine[] => {
+  const lines: NoteLine[] = [];
+  // The fence that opened the current code block: the same character, at
+  // least as many times, closes it.
+  let fence: string | undefined;
+
+  body.split("\n").forEach((raw, index) => {
+    const text = raw.replace(/\r$/, "");
+    const fenceLine = FENCE.exec(text);
+    if (fence !== undefined) {
+      const [, marker = "", rest = ""] = fenceLine ?? [];
+      if (marker[0] === fence[0] && marker.length >= fence.length && !rest.trim()) fence = undefined;
+      return;
+    }
+    if (fenceLine) {
+      fence = fenceLine[1];
+      return;
+    }
+    lines.push({ number: index + 1, text });
+  });
+
+  return lines;
+};
+
+// An ATX heading (`## Text`, optionally closed `## Text ##`), or undefined.
+// `#tag` is not a heading: the marker needs whitespace after it.
+export const headingOf = (line: string): Heading | undefined => {
+  const match = HEADING.exec(line);
+  return match ? { level: match[1].length, text: match[2] } : undefined;
+};
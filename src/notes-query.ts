@@ -11,17 +11,21 @@ export const CORE_DATA_EPOCH_OFFSET = 978307200;
 
 const prefix = (alias: string): string => (alias ? `${alias}.` : "");
 
-// createdAt / modifiedAt projection, converting Core Data timestamps to
-// ISO-8601 UTC. `alias` is the table alias used in joined queries.
+// One Core Data timestamp column as ISO-8601 UTC.
 //
 // The trailing Z is not decoration: SQLite's datetime() renders UTC as
 // "2021-01-01 00:00:00", which any reader (including an LLM) takes for local
 // wall-clock time. In CET that misreports a note written at 01:30 as 23:30 the
 // previous day, which shifts the date and not just the hour.
+export const isoTimestamp = (column: string): string =>
+  `strftime('%Y-%m-%dT%H:%M:%SZ', ${column} + ${CORE_DATA_EPOCH_OFFSET}, 'unixepoch')`;
+
+// createdAt / modifiedAt projection. `alias` is the table alias used in
+// joined queries.
 export const timestampColumns = (alias = ""): string => {
   const column = prefix(alias);
-  return `strftime('%Y-%m-%dT%H:%M:%SZ', ${column}ZCREATIONDATE + ${CORE_DATA_EPOCH_OFFSET}, 'unixepoch') as createdAt,
-        strftime('%Y-%m-%dT%H:%M:%SZ', ${column}ZMODIFICATIONDATE + ${CORE_DATA_EPOCH_OFFSET}, 'unixepoch') as modifiedAt`;
+  return `${isoTimestamp(`${column}ZCREATIONDATE`)} as createdAt,
+        ${isoTimestamp(`${column}ZMODIFICATIONDATE`)} as modifiedAt`;
 };
 
 // The "live notes" filter: not trashed and not archived. The view almost
@@ -41,11 +45,12 @@ export const liveNotesFilter = (alias = ""): string => {
 // as a Note minus the things that are attached/normalized later: tags are
 // joined in separately, SQLite returns the flags as 0/1 rather than booleans,
 // and any column can come back NULL.
-export type NoteRow = Omit<Note, "tags" | "isTrashed" | "isArchived" | "id" | "title"> & {
+export type NoteRow = Omit<Note, "tags" | "isTrashed" | "isArchived" | "isPinned" | "id" | "title"> & {
   id?: string | null;
   title?: string | null;
   isTrashed?: number | boolean | null;
   isArchived?: number | boolean | null;
+  isPinned?: number | boolean | null;
 };
 
 // Maps a raw query row to a Note, applying the shared normalization rules:
@@ -69,6 +74,10 @@ export const toNote = (row: NoteRow, tags: string[] = []): Note => {
   if (row.modifiedAt != null) note.modifiedAt = row.modifiedAt;
   if (row.isTrashed != null) note.isTrashed = Boolean(row.isTrashed);
   if (row.isArchived != null) note.isArchived = Boolean(row.isArchived);
+  if (row.isPinned != null) note.isPinned = Boolean(row.isPinned);
+  if (row.trashedAt != null) note.trashedAt = row.trashedAt;
+  if (row.score != null) note.score = row.score;
+  if (row.snippets != null) note.snippets = row.snippets;
   return note;
 };
 
@@ -0,0 +1,126 @@
+import { test, expect, describe } from "bun:test";
+import { parseOutline, findSection, SectionError, insertIntoSection, replaceSectionBody, bearHeader } from "./outline";
+
+const LOG = [
+  "# Meeting log", // 1
+  "intro", // 2
+  "## Q3", // 3
+  "### Risks", // 4
+  "budget", // 5
+  "## Q4", // 6
+  "```md", // 7
+  "## Not a heading", // 8
+  "```", // 9
+  "### Risks", // 10
+  "hiring", // 11
+  "#### Détails", // 12
+  "x", // 13
+].join("\n");
+
+describe("parseOutline", () => {
+  test("nests headings by level, leaving out the title and fenced code", () => {
+    const strip = (headings: ReturnType<typeof parseOutline>): unknown =>
+      headings.map(({ text, startLine, endLine, children }) => ({ text, startLine, endLine, children: strip(children) }));
+    expect(strip(parseOutline(LOG))).toEqual([
+      { text: "Q3", startLine: 3, endLine: 5, children: [{ text: "Risks", startLine: 4, endLine: 5, children: [] }] },
+      {
+        text: "Q4",
+        startLine: 6,
+        endLine: 13,
+        children: [
+          { text: "Risks", startLine: 10, endLine: 13, children: [{ text: "Détails", startLine: 12, endLine: 13, children: [] }] },
+        ],
+      },
+    ]);
+  });
+
+  test("counts a section's characters, heading line included", () => {
+    const [q3] = parseOutline(LOG);
+    expect(q3.chars).toBe("## Q3\n### Risks\nbudget".length);
+    expect(q3.level).toBe(2);
+  });
+
+  test("a skipped level still nests under the heading above", () => {
+    const [top] = parseOutline("T\n# A\n### C\n## B");
+    expect(top.children.map(child => child.text)).toEqual(["C", "B"]);
+  });
+
+  test("a note without headings has an empty outline", () => {
+    expect(parseOutline("# Title only\nbody")).toEqual([]);
+  });
+});
+
+describe("findSection", () => {
+  test("returns a unique heading's section with its path", () => {
+    expect(findSection(LOG, "q3")).toEqual({
+      path: ["Q3"],
+      level: 2,
+      startLine: 3,
+      endLine: 5,
+      content: "## Q3\n### Risks\nbudget",
+    });
+  });
+
+  test("matches by folded text", () => {
+    expect(findSection(LOG, "DÉTAILS").content).toBe("#### Détails\nx");
+  });
+
+  test("disambiguates by path, skipping levels that are not named", () => {
+    expect(findSection(LOG, "Q4/Risks").startLine).toBe(10);
+    expect(findSection(LOG, "q3 / risks").startLine).toBe(4);
+    expect(findSection(LOG, "Q4/Détails").path).toEqual(["Q4", "Risks", "Détails"]);
+  });
+
+  test("a slash can belong to the heading's own text", () => {
+    expect(findSection("T\n## Q3/Q4 plan\nx", "Q3/Q4 plan").content).toBe("## Q3/Q4 plan\nx");
+  });
+
+  test("refuses an ambiguous heading, listing each path", () => {
+    expect(() => findSection(LOG, "Risks")).toThrow(SectionError);
+    expect(() => findSection(LOG, "Risks")).toThrow('"Q3/Risks" (line 4), "Q4/Risks" (line 10)');
+  });
+
+  test("refuses a heading that is missing or only inside code", () => {
+    expect(() => findSection(LOG, "Not a heading")).toThrow(/No heading "Not a heading"/);
+    expect(() => findSection(LOG, "Q4/Nope")).toThrow(SectionError);
+  });
+});
+
+describe("section edits", () => {
+  const DAY = "# Day\n## Notes\ntext\n\n## Decisions\n- one\n\n### Parked\n- later\n\n## End";
+
+  test("appends after the section's own text, above its subheading and the blank spacing", () => {
+    expect(insertIntoSection(DAY, "Decisions", "- two", "append")).toBe(
+      "# Day\n## Notes\ntext\n\n## Decisions\n- one\n- two\n\n### Parked\n- later\n\n## End"
+    );
+  });
+
+  test("prepends directly below the heading", () => {
+    expect(insertIntoSection(DAY, "notes", "first", "prepend")).toBe(
+      "# Day\n## Notes\nfirst\ntext\n\n## Decisions\n- one\n\n### Parked\n- later\n\n## End"
+    );
+  });
+
+  test("appends to an empty last section right below its heading", () => {
+    expect(insertIntoSection(DAY, "End", "done", "append")).toEndWith("## End\ndone");
+  });
+
+  test("replaces a section's body with its subsections, keeping the heading and spacing", () => {
+    expect(replaceSectionBody(DAY, "Decisions", "- only")).toBe("# Day\n## Notes\ntext\n\n## Decisions\n- only\n\n## End");
+    expect(replaceSectionBody(DAY, "Decisions", "")).toBe("# Day\n## Notes\ntext\n\n## Decisions\n\n## End");
+  });
+
+  test("edits refuse a heading that is not there, like reads", () => {
+    expect(() => insertIntoSection(DAY, "Nope", "x", "append")).toThrow(SectionError);
+    expect(() => replaceSectionBody(DAY, "Nope", "x")).toThrow(SectionError);
+  });
+
+  test("hands Bear the header only when its own lookup lands on the same section", () => {
+    expect(bearHeader(DAY, "Notes")).toBe("Notes");
+    // Folded, by path, with a subsection, or with a namesake in code: edited here.
+    expect(bearHeader(DAY, "notes")).toBeUndefined();
+    expect(bearHeader(DAY, "Decisions/Parked")).toBeUndefined();
+    expect(bearHeader(DAY, "Decisions")).toBeUndefined();
+    expect(bearHeader("# T\n```\n## Notes\n```\n## Notes\nx", "Notes")).toBeUndefined();
+  });
+});
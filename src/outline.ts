@@ -0,0 +1,175 @@
+// The heading structure of a note body, and the sections it divides the body
+// into, and the edits that target one section. Pure functions, no SQL.
+//
+// A section runs from its heading down to the line before the next heading of
+// the same or a higher level, so it holds its subsections. Headings are read
+// as note-lines.ts reads them, fenced code skipped; the title line is the
+// note's name, not a heading of its body, and is left out. Headings are
+// matched with the same folding as search (text-match.ts).
+
+import { proseLines, headingOf } from "./note-lines.js";
+import { foldForMatch } from "./text-match.js";
+
+// A heading that names no section, or more than one. Thrown rather than
+// guessed around, so a section read or write never lands on a different
+// section than the one the caller meant.
+export class SectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SectionError";
+  }
+}
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+  // The heading's own line and the section's last line, 1-based as in ZTEXT.
+  startLine: number;
+  endLine: number;
+  // Characters in the section, heading line and subsections included.
+  chars: number;
+  children: OutlineHeading[];
+}
+
+export interface Section {
+  // The heading texts from the outermost enclosing section down to this one.
+  path: string[];
+  level: number;
+  startLine: number;
+  endLine: number;
+  // The section's Markdown, heading line first.
+  content: string;
+}
+
+// Every heading in document order, with its section's extent but no tree.
+const flatHeadings = (body: string): OutlineHeading[] => {
+  const lines = body.split("\n");
+  const headings: OutlineHeading[] = [];
+  for (const line of proseLines(body)) {
+    const heading = line.number > 1 ? headingOf(line.text) : undefined;
+    if (heading) headings.push({ ...heading, startLine: line.number, endLine: lines.length, chars: 0, children: [] });
+  }
+
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find(later => later.level <= heading.level);
+    if (next) heading.endLine = next.startLine - 1;
+    heading.chars = lines.slice(heading.startLine - 1, heading.endLine).join("\n").length;
+  });
+  return headings;
+};
+
+// The headings as a tree: each one under the nearest heading above it with a
+// lower level. A skipped level (`#` then `###`) still nests.
+export const parseOutline = (body: string): OutlineHeading[] => {
+  const roots: OutlineHeading[] = [];
+  const open: OutlineHeading[] = [];
+  for (const heading of flatHeadings(body)) {
+    while (open.length > 0 && open[open.length - 1].level >= heading.level) open.pop();
+    (open.length > 0 ? open[open.length - 1].children : roots).push(heading);
+    open.push(heading);
+  }
+  return roots;
+};
+
+// Whether `query` names the last heading of `chain`, optionally preceded by
+// `/`-separated ancestors in order. Not every ancestor has to be named, and a
+// `/` can belong to a heading's own text, so every way of splitting the query
+// is tried.
+const namesChain = (chain: string[], query: string): boolean => {
+  const last = foldForMatch(chain[chain.length - 1].trim());
+  const folded = foldForMatch(query.trim());
+  if (folded === last) return true;
+  if (!folded.endsWith(last)) return false;
+
+  const rest = folded.slice(0, folded.length - last.length).trimEnd();
+  if (!rest.endsWith("/")) return false;
+  const ancestors = rest.slice(0, -1);
+  return chain.slice(0, -1).some((_, index) => namesChain(chain.slice(0, index + 1), ancestors));
+};
+
+// The one section `heading` names: a heading's text, or a path like
+// `Q3/Risks` when the text alone is not unique.
+export const findSection = (body: string, heading: string): Section => {
+  const lines = body.split("\n");
+  const candidates: Section[] = [];
+  const open: OutlineHeading[] = [];
+
+  for (const found of flatHeadings(body)) {
+    while (open.length > 0 && open[open.length - 1].level >= found.level) open.pop();
+    open.push(found);
+    const path = open.map(entry => entry.text);
+    if (!namesChain(path, heading)) continue;
+    candidates.push({
+      path,
+      level: found.level,
+      startLine: found.startLine,
+      endLine: found.endLine,
+      content: lines.slice(found.startLine - 1, found.endLine).join("\n"),
+    });
+  }
+
+  if (candidates.length === 1) return candidates[0];
+  if (candidates.length === 0) {
+    throw new SectionError(`No heading "${heading}" in the note. Get the outline to see its headings.`);
+  }
+  const paths = candidates.map(candidate => `"${candidate.path.join("/")}" (line ${candidate.startLine})`);
+  throw new SectionError(
+    `Heading "${heading}" is ambiguous: it matches ${paths.join(", ")}. Name it by its path to pick one.`
+  );
+};
+
+// Where text added to a section goes: prepended directly below its heading,
+// or appended after the last non-blank line of its own text, above its first
+// subheading -- "under ## Decisions" means beside the decisions, not inside
+// whatever subsection happens to close them.
+export type SectionPosition = "append" | "prepend";
+
+// The last line of a section's own text, before any subsection.
+const ownEndLine = (body: string, section: Section): number => {
+  const sub = flatHeadings(body).find(
+    heading => heading.startLine > section.startLine && heading.startLine <= section.endLine
+  );
+  return sub ? sub.startLine - 1 : section.endLine;
+};
+
+// Steps back over blank lines, never above the heading line, so an edit
+// keeps the spacing that separates a section from the next heading.
+const lastFilledLine = (lines: string[], section: Section, end: number): number => {
+  let last = end;
+  while (last > section.startLine && !lines[last - 1].trim()) last -= 1;
+  return last;
+};
+
+export const insertIntoSection = (body: string, heading: string, text: string, position: SectionPosition): string => {
+  const section = findSection(body, heading);
+  const lines = body.split("\n");
+  const after = position === "prepend" ? section.startLine : lastFilledLine(lines, section, ownEndLine(body, section));
+  lines.splice(after, 0, text);
+  return lines.join("\n");
+};
+
+// The body with everything under one heading, subsections included, replaced
+// by `text`. The heading line itself stays, and so does the blank spacing
+// before the next heading.
+export const replaceSectionBody = (body: string, heading: string, text: string): string => {
+  const section = findSection(body, heading);
+  const lines = body.split("\n");
+  const last = lastFilledLine(lines, section, section.endLine);
+  lines.splice(section.startLine, last - section.startLine, ...(text ? [text] : []));
+  return lines.join("\n");
+};
+
+// The heading text to hand Bear as add-text's `header`, or undefined when
+// Bear's own lookup might land elsewhere than findSection did. Bear finds a
+// header by its text alone and knows nothing of paths, folding, fenced code
+// or where a subsection begins, so it is trusted only when the caller named
+// the heading exactly, no other line (code or title included) reads as a
+// heading with that text, and the section has no subsections to disagree on.
+export const bearHeader = (body: string, heading: string): string | undefined => {
+  const section = findSection(body, heading);
+  const text = section.path[section.path.length - 1];
+  if (heading.trim() !== text) return undefined;
+  const namesakes = body.split("\n").filter(line => headingOf(line.replace(/\r$/, ""))?.text === text);
+  if (namesakes.length !== 1) return undefined;
+  return ownEndLine(body, section) === section.endLine ? text : undefined;
+};
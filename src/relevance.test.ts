@@ -0,0 +1,42 @@
+import { test, expect, describe } from "bun:test";
+import { documentStats, scoreDocuments } from "./relevance";
+
+describe("documentStats", () => {
+  test("counts title, heading and body hits under the match folding", () => {
+    const stats = documentStats("Möte", "# Möte\n## MÖTE agenda\nmöte, möte", ["möte"]);
+    expect(stats.hits).toEqual([{ title: 1, heading: 1, body: 4 }]);
+    expect(stats.length).toBe(7);
+  });
+
+  test("the title line is not counted as a heading", () => {
+    expect(documentStats("Plan", "# Plan\ntext", ["plan"]).hits[0].heading).toBe(0);
+  });
+
+  test("a # line in fenced code is not a heading", () => {
+    const stats = documentStats("Script", "# Script\n```sh\n# foo the build\n```\n## Foo", ["foo"]);
+    expect(stats.hits[0]).toEqual({ title: 0, heading: 1, body: 2 });
+  });
+});
+
+describe("scoreDocuments", () => {
+  const doc = (body: number, length: number, title = 0) => ({ hits: [{ title, heading: 0, body }], length });
+
+  test("term frequency saturates: ten mentions do not score ten times one", () => {
+    const [once, tenTimes] = scoreDocuments([doc(1, 20), doc(10, 20)], 10);
+    expect(tenTimes).toBeGreaterThan(once);
+    expect(tenTimes).toBeLessThan(once * 3);
+  });
+
+  test("the same hits weigh less in a longer note", () => {
+    const [short, long] = scoreDocuments([doc(1, 10), doc(1, 200)], 10);
+    expect(short).toBeGreaterThan(long);
+  });
+
+  test("a rarer term weighs more", () => {
+    const rare = { hits: [{ title: 0, heading: 0, body: 1 }, { title: 0, heading: 0, body: 0 }], length: 10 };
+    const common = { hits: [{ title: 0, heading: 0, body: 0 }, { title: 0, heading: 0, body: 1 }], length: 10 };
+    const alsoCommon = { hits: [{ title: 0, heading: 0, body: 0 }, { title: 0, heading: 0, body: 1 }], length: 10 };
+    const [rareScore, commonScore] = scoreDocuments([rare, common, alsoCommon], 3);
+    expect(rareScore).toBeGreaterThan(commonScore);
+  });
+});
@@ -0,0 +1,98 @@
+// Relevance scoring for bear_search's `order: "relevance"`. Pure functions,
+// no SQL: the search path gathers a few counts per matching note in the same
+// streaming pass that matches it, and these turn the counts into scores.
+//
+// The model is BM25F in miniature. A term's hits in the title and in headings
+// are counted as extra body hits (weighted), so a note titled "Roadmap"
+// outranks one that mentions the roadmap once in passing; term frequency then
+// saturates, so the fiftieth mention adds little; and long notes are
+// normalized against the average, so a 30k-character log does not win on
+// volume alone. Rarer terms weigh more through the usual inverse document
+// frequency.
+
+import { proseLines, headingOf } from "./note-lines.js";
+import { foldForMatch } from "./text-match.js";
+
+const TITLE_WEIGHT = 5;
+const HEADING_WEIGHT = 2;
+// The standard BM25 constants: k1 sets how quickly term frequency saturates,
+// b how strongly length is normalized.
+const K1 = 1.2;
+const B = 0.75;
+
+export interface TermHits {
+  title: number;
+  heading: number;
+  body: number;
+}
+
+export interface DocumentStats {
+  // One entry per ranked term, in the order the terms were given.
+  hits: TermHits[];
+  // Length in words, for normalization.
+  length: number;
+}
+
+const countOccurrences = (haystack: string, needle: string): number => {
+  if (!needle) return 0;
+  let count = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    count += 1;
+  }
+  return count;
+};
+
+// The text of the Markdown headings below the first line, read as
+// bear_get_outline reads them, so a `# comment` in fenced code is not one.
+// The first line of a Bear note is its title, which is counted from ZTITLE
+// instead.
+const headingText = (foldedBody: string): string =>
+  proseLines(foldedBody)
+    .flatMap(line => (line.number > 1 ? (headingOf(line.text)?.text ?? []) : []))
+    .join("\n");
+
+// Counts the ranked terms in one note. The body is folded once, however many
+// terms there are, with the same folding the matching uses.
+export const documentStats = (title: string, body: string, terms: string[]): DocumentStats => {
+  const foldedTitle = foldForMatch(title);
+  const foldedBody = foldForMatch(body);
+  const headings = headingText(foldedBody);
+
+  return {
+    hits: terms.map(term => {
+      const needle = foldForMatch(term);
+      return {
+        title: countOccurrences(foldedTitle, needle),
+        heading: countOccurrences(headings, needle),
+        body: countOccurrences(foldedBody, needle),
+      };
+    }),
+    length: foldedBody.split(/\s+/).filter(Boolean).length,
+  };
+};
+
+// Scores every document against the others. `corpusSize` is the number of
+// notes the search examined, matched or not, which is what makes a term that
+// occurs in few of them count for more.
+export const scoreDocuments = (documents: DocumentStats[], corpusSize: number): number[] => {
+  if (documents.length === 0) return [];
+
+  const termCount = documents[0].hits.length;
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const total = Math.max(corpusSize, documents.length);
+
+  const idf = Array.from({ length: termCount }, (_, term) => {
+    const frequency = documents.filter(doc => doc.hits[term].title + doc.hits[term].body > 0).length;
+    return Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+  });
+
+  return documents.map(doc => {
+    const norm = 1 - B + B * (doc.length / averageLength);
+    const score = doc.hits.reduce((sum, hits, term) => {
+      const weighted = hits.body + TITLE_WEIGHT * hits.title + HEADING_WEIGHT * hits.heading;
+      return sum + idf[term] * ((weighted * (K1 + 1)) / (weighted + K1 * norm));
+    }, 0);
+    // Rounded so the number a caller sees is the number the ordering used.
+    return Math.round(score * 1000) / 1000;
+  });
+};
@@ -0,0 +1,138 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { openSearchIndex, refreshSearchIndex, matchingNotePks } from "./search-index";
+import { searchNotes, setSearchIndex } from "./bear";
+import { createBearTables, insertNote, CORE_DATA_2021 } from "./bear-fixture";
+
+// The index is only allowed to be faster than the scan, never different from
+// it, so most of these compare the two paths on the same fixture rather than
+// asserting the index's answers on their own. Modification dates are
+// distinct so both paths order the page the same way.
+const buildFixture = (): Database => {
+  const db = new Database(":memory:");
+  createBearTables(db);
+  insertNote(db, { pk: 1, id: "I-DISCOUNT", title: "Discount 50% off", text: "save now", modifiedAt: CORE_DATA_2021 + 1 });
+  insertNote(db, { pk: 2, id: "I-5000", title: "5000 widgets", text: "bulk", modifiedAt: CORE_DATA_2021 + 2 });
+  insertNote(db, { pk: 3, id: "I-UNDERSCORE", title: "file_name", text: "doc", modifiedAt: CORE_DATA_2021 + 3 });
+  insertNote(db, { pk: 4, id: "I-FILEXNAME", title: "filexname", text: "doc", modifiedAt: CORE_DATA_2021 + 4 });
+  insertNote(db, { pk: 5, id: "I-SV", title: "Åtgärder", text: "nästa MÖTE \"q\"", modifiedAt: CORE_DATA_2021 + 5 });
+  insertNote(db, { pk: 6, id: "I-NULL", title: null, text: null, modifiedAt: CORE_DATA_2021 + 6 });
+  insertNote(db, { pk: 7, id: "I-TRASHED", title: "trashed doc", text: "doc", modifiedAt: CORE_DATA_2021 + 7, trashed: 1 });
+  insertNote(db, { pk: 8, id: "I-ARCHIVED", title: "archived doc", text: "doc", modifiedAt: CORE_DATA_2021 + 8, archived: 1 });
+  db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (21, 'work')`);
+  db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (3, 21), (4, 21)`);
+  return db;
+};
+
+let bear: Database;
+let index: Database;
+
+beforeEach(() => {
+  bear = buildFixture();
+  index = openSearchIndex(":memory:");
+});
+
+afterEach(() => {
+  setSearchIndex(null);
+  index.close();
+});
+
+const ids = (page: { notes: { id: string }[] }) => page.notes.map(note => note.id).sort();
+
+describe("the index answers exactly what the scan answers", () => {
+  const terms = ["50%", "file_name", "åtgärder", "MÖTE", "möte", '"q"', "o", "ä", "doc", "nothing-here"];
+
+  for (const term of terms) {
+    test(`term ${JSON.stringify(term)}`, () => {
+      const scanned = searchNotes({ term }, bear);
+      setSearchIndex(index);
+      expect(searchNotes({ term }, bear)).toEqual(scanned);
+    });
+  }
+
+  test("with snippets, which still come from the note bodies", () => {
+    const scanned = searchNotes({ term: "doc", snippets: 1 }, bear);
+    setSearchIndex(index);
+    expect(searchNotes({ term: "doc", snippets: 1 }, bear)).toEqual(scanned);
+    expect(scanned.notes.map(note => note.snippets)).toEqual([["«doc»"], ["«doc»"]]);
+  });
+
+  test("with a tag and paging on top", () => {
+    const scanned = searchNotes({ term: "doc", tag: "work", limit: 1 }, bear);
+    setSearchIndex(index);
+    const indexed = searchNotes({ term: "doc", tag: "work", limit: 1 }, bear);
+    expect(indexed).toEqual(scanned);
+    expect(indexed.hasMore).toBe(true);
+  });
+});
+
+describe("refreshing", () => {
+  test("the first refresh indexes every live note and nothing else", () => {
+    expect(refreshSearchIndex(index, bear)).toEqual({ indexed: 6, removed: 0 });
+    expect(matchingNotePks(index, "doc")).toEqual([3, 4]);
+  });
+
+  test("a refresh with nothing changed does no work", () => {
+    refreshSearchIndex(index, bear);
+    expect(refreshSearchIndex(index, bear)).toEqual({ indexed: 0, removed: 0 });
+  });
+
+  test("an edited note is re-read once its modification date moves", () => {
+    refreshSearchIndex(index, bear);
+    bear.run(`UPDATE ZSFNOTE SET ZTEXT = 'rewritten', ZMODIFICATIONDATE = ZMODIFICATIONDATE + 1 WHERE Z_PK = 2`);
+    expect(refreshSearchIndex(index, bear)).toEqual({ indexed: 1, removed: 0 });
+    expect(matchingNotePks(index, "rewritten")).toEqual([2]);
+    expect(matchingNotePks(index, "bulk")).toEqual([]);
+  });
+
+  test("a trashed, archived or deleted note leaves the index, and returns when restored", () => {
+    refreshSearchIndex(index, bear);
+    bear.run(`UPDATE ZSFNOTE SET ZTRASHED = 1 WHERE Z_PK = 3`);
+    bear.run(`UPDATE ZSFNOTE SET ZARCHIVED = 1 WHERE Z_PK = 4`);
+    bear.run(`DELETE FROM ZSFNOTE WHERE Z_PK = 1`);
+    expect(refreshSearchIndex(index, bear)).toEqual({ indexed: 0, removed: 3 });
+    expect(matchingNotePks(index, "doc")).toEqual([]);
+
+    bear.run(`UPDATE ZSFNOTE SET ZTRASHED = 0 WHERE Z_PK = 3`);
+    expect(refreshSearchIndex(index, bear)).toEqual({ indexed: 1, removed: 0 });
+    expect(matchingNotePks(index, "doc")).toEqual([3]);
+  });
+
+  test("searches see an edit made after the index was built", () => {
+    setSearchIndex(index);
+    expect(ids(searchNotes({ term: "fresh words" }, bear))).toEqual([]);
+    bear.run(`UPDATE ZSFNOTE SET ZTEXT = 'fresh words', ZMODIFICATIONDATE = ZMODIFICATIONDATE + 1 WHERE Z_PK = 2`);
+    expect(ids(searchNotes({ term: "fresh words" }, bear))).toEqual(["I-5000"]);
+  });
+});
+
+describe("falling back", () => {
+  test("an index that cannot be used falls back to the scan with the same answer", () => {
+    const scanned = searchNotes({ term: "doc" }, bear);
+    const broken = new Database(":memory:");
+    const reasons: string[] = [];
+    setSearchIndex(broken, reason => reasons.push(reason));
+    expect(searchNotes({ term: "doc" }, bear)).toEqual(scanned);
+    expect(reasons).toEqual(["no such table: indexed_note"]);
+    broken.close();
+  });
+
+  test("an index file from an older layout is rebuilt rather than trusted", () => {
+    const path = join(tmpdir(), `bear-search-index-${process.pid}-${Date.now()}.sqlite`);
+    const stale = new Database(path, { create: true });
+    stale.run("CREATE TABLE indexed_note (pk INTEGER PRIMARY KEY, modified REAL, extra TEXT)");
+    stale.run("INSERT INTO indexed_note (pk, modified) VALUES (1, 0)");
+    stale.close();
+
+    const reopened = openSearchIndex(path);
+    try {
+      expect(refreshSearchIndex(reopened, bear).indexed).toBe(6);
+    } finally {
+      reopened.close();
+      rmSync(path, { force: true });
+    }
+  });
+});
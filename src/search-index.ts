@@ -0,0 +1,143 @@
+import { Database } from "bun:sqlite";
+import { DatabaseError } from "./database.js";
+import { liveNotesFilter } from "./notes-query.js";
+import { foldForMatch } from "./text-match.js";
+
+// An optional sidecar index for term searches. Without it, every bear_search
+// with a term streams every live note body through containsFolded, which is
+// O(library) per call. With it, the same question is answered by an FTS5
+// index kept in a separate, writable SQLite file -- never Bear's own database,
+// which this server only ever opens read-only.
+//
+// The index must give exactly the answers the scan gives, so it stores the
+// text already folded by foldForMatch (NFC, lower case) and uses FTS5's
+// trigram tokenizer, which matches substrings rather than words. A trigram
+// hit is then confirmed with instr() over the same folded text, so the index
+// only ever narrows the candidates and the final test is the scan's own
+// substring test. Terms shorter than a trigram skip the index lookup and
+// instr() over the folded text directly, which is still a scan but one in C
+// over text that no longer needs folding.
+//
+// Only live notes are indexed, since only live notes are term-searched.
+// Refreshing is incremental: a note is re-read from Bear only when its
+// ZMODIFICATIONDATE changed, and dropped when it was trashed, archived or
+// deleted.
+
+// Bumped whenever the layout below changes; an index file written by an
+// older version is rebuilt from scratch rather than migrated.
+const INDEX_VERSION = 1;
+
+export const openSearchIndex = (path: string): Database => {
+  let index: Database;
+  try {
+    index = new Database(path, { create: true });
+  } catch (error) {
+    throw new DatabaseError(`Failed to open the search index at ${path}`, error);
+  }
+
+  try {
+    const { user_version: version } = index.prepare("PRAGMA user_version").get() as { user_version: number };
+    if (version !== INDEX_VERSION) {
+      index.run("DROP TABLE IF EXISTS note_text");
+      index.run("DROP TABLE IF EXISTS indexed_note");
+    }
+    // case_sensitive 1 because the text is folded before it is stored: the
+    // tokenizer's own folding is ASCII-only, the same gap text-match.ts exists
+    // to close.
+    index.run(
+      "CREATE VIRTUAL TABLE IF NOT EXISTS note_text USING fts5(title, body, tokenize = 'trigram case_sensitive 1')"
+    );
+    index.run("CREATE TABLE IF NOT EXISTS indexed_note (pk INTEGER PRIMARY KEY, modified REAL)");
+    index.run(`PRAGMA user_version = ${INDEX_VERSION}`);
+  } catch (error) {
+    index.close();
+    // Most likely an SQLite built without FTS5 or the trigram tokenizer.
+    throw new DatabaseError(`The search index at ${path} could not be set up`, error);
+  }
+
+  return index;
+};
+
+export interface RefreshResult {
+  indexed: number;
+  removed: number;
+}
+
+// Bodies are fetched from Bear in batches of this many notes, so a first
+// build of a large library does not hold every body in memory at once.
+const BATCH_SIZE = 200;
+
+// Brings the index up to date with Bear's live notes. Reads only primary keys
+// and modification dates to find what changed, then reads bodies for just
+// those notes. Runs in one transaction, so a failure leaves the previous,
+// consistent state in place.
+export const refreshSearchIndex = (index: Database, bear: Database): RefreshResult => {
+  const live = new Map<number, number | null>();
+  for (const row of bear
+    .prepare(`SELECT Z_PK as pk, ZMODIFICATIONDATE as modified FROM ZSFNOTE WHERE ${liveNotesFilter()}`)
+    .iterate() as IterableIterator<{ pk: number; modified: number | null }>) {
+    live.set(row.pk, row.modified);
+  }
+
+  const indexed = new Map<number, number | null>();
+  for (const row of index.prepare("SELECT pk, modified FROM indexed_note").iterate() as IterableIterator<{
+    pk: number;
+    modified: number | null;
+  }>) {
+    indexed.set(row.pk, row.modified);
+  }
+
+  const stale = [...indexed.keys()].filter(pk => !live.has(pk));
+  const changed = [...live.entries()]
+    .filter(([pk, modified]) => !indexed.has(pk) || indexed.get(pk) !== modified)
+    .map(([pk]) => pk);
+
+  if (stale.length === 0 && changed.length === 0) return { indexed: 0, removed: 0 };
+
+  const removeText = index.prepare("DELETE FROM note_text WHERE rowid = ?");
+  const removeNote = index.prepare("DELETE FROM indexed_note WHERE pk = ?");
+  const insertText = index.prepare("INSERT INTO note_text (rowid, title, body) VALUES (?, ?, ?)");
+  const insertNote = index.prepare("INSERT INTO indexed_note (pk, modified) VALUES (?, ?)");
+  const readBodies = bear.prepare(
+    "SELECT Z_PK as pk, ZTITLE as title, ZTEXT as body, ZMODIFICATIONDATE as modified " +
+      "FROM ZSFNOTE WHERE Z_PK IN (SELECT value FROM json_each(?))"
+  );
+
+  index.transaction(() => {
+    for (const pk of [...stale, ...changed]) {
+      removeText.run(pk);
+      removeNote.run(pk);
+    }
+    for (let start = 0; start < changed.length; start += BATCH_SIZE) {
+      const batch = JSON.stringify(changed.slice(start, start + BATCH_SIZE));
+      for (const row of readBodies.all(batch) as { pk: number; title: string | null; body: string | null; modified: number | null }[]) {
+        insertText.run(row.pk, foldForMatch(row.title ?? ""), foldForMatch(row.body ?? ""));
+        // The date read with the body, not the one from the diff above: if the
+        // note changed in between, the next refresh sees it as changed again.
+        insertNote.run(row.pk, row.modified);
+      }
+    }
+  })();
+
+  return { indexed: changed.length, removed: stale.length };
+};
+
+const TRIGRAM = 3;
+
+// Primary keys of the indexed notes whose title or body contains the term,
+// under the same folding as containsFolded.
+export const matchingNotePks = (index: Database, term: string): number[] => {
+  const folded = foldForMatch(term);
+  const exact = "(instr(title, ?) > 0 OR instr(body, ?) > 0)";
+
+  // A phrase query is the substring query for the trigram tokenizer. Double
+  // quotes are the only character that needs escaping inside one.
+  const rows =
+    [...folded].length >= TRIGRAM
+      ? index
+          .prepare(`SELECT rowid as pk FROM note_text WHERE note_text MATCH ? AND ${exact}`)
+          .all(`"${folded.replace(/"/g, '""')}"`, folded, folded)
+      : index.prepare(`SELECT rowid as pk FROM note_text WHERE ${exact}`).all(folded, folded);
+
+  return (rows as { pk: number }[]).map(row => row.pk);
+};
@@ -0,0 +1,118 @@
+import { test, expect, describe } from "bun:test";
+import { parseQuery, matchesQuery, someNode, positiveScopes, QueryError, type QuerySubject } from "./search-query";
+
+describe("parseQuery", () => {
+  test("bare words are an implicit AND", () => {
+    expect(parseQuery("invoice march")).toEqual({
+      type: "and",
+      operands: [
+        { type: "text", field: "any", value: "invoice" },
+        { type: "text", field: "any", value: "march" },
+      ],
+    });
+  });
+
+  test("OR binds looser than AND, explicit or implicit", () => {
+    expect(parseQuery("a b OR c AND d")).toEqual({
+      type: "or",
+      operands: [
+        { type: "and", operands: [{ type: "text", field: "any", value: "a" }, { type: "text", field: "any", value: "b" }] },
+        { type: "and", operands: [{ type: "text", field: "any", value: "c" }, { type: "text", field: "any", value: "d" }] },
+      ],
+    });
+  });
+
+  test("a quoted phrase stays one term, spaces and operators included", () => {
+    expect(parseQuery('"next OR meeting"')).toEqual({ type: "text", field: "any", value: "next OR meeting" });
+  });
+
+  test("field prefixes take a word or a phrase, and tag names are normalized", () => {
+    expect(parseQuery('title:"road map"')).toEqual({ type: "text", field: "title", value: "road map" });
+    expect(parseQuery("tag:#work/q3")).toEqual({ type: "tag", name: "work/q3" });
+    expect(parseQuery('tag:"#my tag#"')).toEqual({ type: "tag", name: "my tag" });
+    expect(parseQuery("in:trash")).toEqual({ type: "in", scope: "trash" });
+    expect(parseQuery("in:Archived")).toEqual({ type: "in", scope: "archived" });
+  });
+
+  test("a leading - negates a word, a field or a group", () => {
+    expect(parseQuery("-tag:paid")).toEqual({ type: "not", operand: { type: "tag", name: "paid" } });
+    expect(parseQuery("-(a OR b)")).toEqual({
+      type: "not",
+      operand: { type: "or", operands: [{ type: "text", field: "any", value: "a" }, { type: "text", field: "any", value: "b" }] },
+    });
+  });
+
+  test("a - inside a word, lower-case operators and unknown prefixes are literal text", () => {
+    expect(parseQuery("e-mail")).toEqual({ type: "text", field: "any", value: "e-mail" });
+    expect(parseQuery("or")).toEqual({ type: "text", field: "any", value: "or" });
+    expect(parseQuery("http://x.com")).toEqual({ type: "text", field: "any", value: "http://x.com" });
+    expect(parseQuery("50%")).toEqual({ type: "text", field: "any", value: "50%" });
+  });
+
+  test("malformed queries are refused with a message saying why", () => {
+    expect(() => parseQuery('"open')).toThrow(QueryError);
+    expect(() => parseQuery('"open')).toThrow(/Unterminated quote/);
+    expect(() => parseQuery("(a OR b")).toThrow(/Unclosed/);
+    expect(() => parseQuery("a)")).toThrow(/Unexpected '\)'/);
+    expect(() => parseQuery("OR a")).toThrow(/Unexpected 'OR'/);
+    expect(() => parseQuery("a OR")).toThrow(/ends where a term was expected/);
+    expect(() => parseQuery("tag:")).toThrow(/needs a value/);
+    expect(() => parseQuery("tag:#")).toThrow(/names no tag/);
+    expect(() => parseQuery("in:inbox")).toThrow(/Unknown scope/);
+    expect(() => parseQuery("   ")).toThrow(/empty/);
+  });
+});
+
+describe("someNode", () => {
+  test("finds a node under negation and groups", () => {
+    const root = parseQuery("a -(b OR tag:x)");
+    expect(someNode(root, node => node.type === "tag")).toBe(true);
+    expect(someNode(root, node => node.type === "in")).toBe(false);
+  });
+});
+
+describe("positiveScopes", () => {
+  test("an in: term widens the scope, under AND or OR", () => {
+    expect(positiveScopes(parseQuery("budget in:archived"))).toEqual(["archived"]);
+    expect(positiveScopes(parseQuery("budget OR in:trash in:trash"))).toEqual(["trash"]);
+  });
+
+  test("a negated in: term widens nothing", () => {
+    expect(positiveScopes(parseQuery("budget -in:archived"))).toEqual([]);
+    expect(positiveScopes(parseQuery("-(in:trash OR in:archived)"))).toEqual([]);
+  });
+});
+
+describe("matchesQuery", () => {
+  const subject = (overrides: Partial<QuerySubject> = {}): QuerySubject => ({
+    title: "Invoice March",
+    body: "Nästa möte om fakturan",
+    tagKeys: new Set(["work"]),
+    isTrashed: false,
+    isArchived: false,
+    ...overrides,
+  });
+
+  test("text folds case across title and body; title: looks only at the title", () => {
+    expect(matchesQuery(parseQuery("MÖTE"), subject())).toBe(true);
+    expect(matchesQuery(parseQuery("title:invoice"), subject())).toBe(true);
+    expect(matchesQuery(parseQuery("title:möte"), subject())).toBe(false);
+  });
+
+  test("tag: compares by tag identity, not substring", () => {
+    expect(matchesQuery(parseQuery("tag:WORK"), subject())).toBe(true);
+    expect(matchesQuery(parseQuery("tag:wor"), subject())).toBe(false);
+  });
+
+  test("'invoice but not tagged paid'", () => {
+    const query = parseQuery("invoice -tag:paid");
+    expect(matchesQuery(query, subject())).toBe(true);
+    expect(matchesQuery(query, subject({ tagKeys: new Set(["paid"]) }))).toBe(false);
+  });
+
+  test("in:archived excludes a trashed note, the way bear_list_archived does", () => {
+    expect(matchesQuery(parseQuery("in:archived"), subject({ isArchived: true }))).toBe(true);
+    expect(matchesQuery(parseQuery("in:archived"), subject({ isArchived: true, isTrashed: true }))).toBe(false);
+    expect(matchesQuery(parseQuery("in:trash"), subject({ isArchived: true, isTrashed: true }))).toBe(true);
+  });
+});
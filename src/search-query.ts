@@ -0,0 +1,244 @@
+// The bear_search query language. Pure functions, no SQL: a query string in,
+// an AST out, and an evaluator that judges one note against it.
+//
+//   invoice -tag:paid              both parts must hold (implicit AND)
+//   "next meeting" OR agenda       a quoted phrase matches literally
+//   title:roadmap tag:work/q3      field prefixes: title:, tag:
+//   -(draft OR wip)                negation of a word, field or group
+//   budget in:archived             in:archived / in:trash widen the scope
+//
+// Text is matched with the same folding as the literal `term` (text-match.ts),
+// so "MÖTE" finds "möte" and "50%" finds the literal text. Only upper-case
+// AND and OR are operators; "or" in lower case is an ordinary word, so a
+// sentence pasted as a query still searches for its words.
+
+import { normalizeTagName, tagKey } from "./note-format.js";
+import { containsFolded } from "./text-match.js";
+
+export type QueryScope = "archived" | "trash";
+
+export type QueryNode =
+  | { type: "text"; field: "any" | "title"; value: string }
+  | { type: "tag"; name: string }
+  | { type: "in"; scope: QueryScope }
+  | { type: "not"; operand: QueryNode }
+  | { type: "and" | "or"; operands: QueryNode[] };
+
+// A query that does not parse. Thrown rather than treated as "no filter", so
+// a typo surfaces instead of quietly returning every note.
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryError";
+  }
+}
+
+type Token =
+  | { kind: "open" | "close" | "and" | "or" | "not" }
+  | { kind: "term"; field: "any" | "title" | "tag" | "in"; value: string };
+
+const FIELD_PREFIX = /^(title|tag|in):/i;
+const isSpace = (char: string): boolean => /\s/.test(char);
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const readPhrase = (): string => {
+    const closing = input.indexOf('"', index + 1);
+    if (closing === -1) throw new QueryError(`Unterminated quote in search query at position ${index + 1}.`);
+    const phrase = input.slice(index + 1, closing);
+    index = closing + 1;
+    return phrase;
+  };
+
+  const readWord = (): string => {
+    const start = index;
+    while (index < input.length && !isSpace(input[index]) && input[index] !== "(" && input[index] !== ")") index += 1;
+    return input.slice(start, index);
+  };
+
+  while (index < input.length) {
+    const char = input[index];
+    if (isSpace(char)) {
+      index += 1;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "open" : "close" });
+      index += 1;
+    } else if (char === "-" && index + 1 < input.length && !isSpace(input[index + 1])) {
+      tokens.push({ kind: "not" });
+      index += 1;
+    } else if (char === '"') {
+      tokens.push({ kind: "term", field: "any", value: readPhrase() });
+    } else {
+      const prefix = FIELD_PREFIX.exec(input.slice(index));
+      if (prefix) {
+        index += prefix[0].length;
+        const value = input[index] === '"' ? readPhrase() : readWord();
+        if (!value.trim()) throw new QueryError(`'${prefix[0]}' needs a value, for example ${prefix[0]}work.`);
+        tokens.push({ kind: "term", field: prefix[1].toLowerCase() as "title" | "tag" | "in", value });
+        continue;
+      }
+
+      const word = readWord();
+      if (word === "AND") tokens.push({ kind: "and" });
+      else if (word === "OR") tokens.push({ kind: "or" });
+      else tokens.push({ kind: "term", field: "any", value: word });
+    }
+  }
+
+  return tokens;
+};
+
+const SCOPES: Record<string, QueryScope> = {
+  archived: "archived",
+  archive: "archived",
+  trash: "trash",
+  trashed: "trash",
+};
+
+const termNode = (token: Extract<Token, { kind: "term" }>): QueryNode => {
+  switch (token.field) {
+    case "tag": {
+      const name = normalizeTagName(token.value);
+      if (!name) throw new QueryError(`'tag:${token.value}' names no tag.`);
+      return { type: "tag", name };
+    }
+    case "in": {
+      const scope = SCOPES[token.value.toLowerCase()];
+      if (!scope) throw new QueryError(`Unknown scope 'in:${token.value}'. Use in:archived or in:trash.`);
+      return { type: "in", scope };
+    }
+    default:
+      return { type: "text", field: token.field, value: token.value };
+  }
+};
+
+// Recursive descent, lowest precedence first: OR binds looser than AND (which
+// may be implicit), and negation binds tightest.
+export const parseQuery = (input: string): QueryNode => {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  const parseOr = (): QueryNode => {
+    const operands = [parseAnd()];
+    while (peek()?.kind === "or") {
+      position += 1;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const operands = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.kind === "or" || next.kind === "close") break;
+      if (next.kind === "and") position += 1;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (!token) throw new QueryError("Search query ends where a term was expected.");
+    position += 1;
+
+    switch (token.kind) {
+      case "not":
+        return { type: "not", operand: parseUnary() };
+      case "open": {
+        const inner = parseOr();
+        if (peek()?.kind !== "close") throw new QueryError("Unclosed '(' in search query.");
+        position += 1;
+        return inner;
+      }
+      case "term":
+        return termNode(token);
+      default:
+        throw new QueryError(`Unexpected '${token.kind === "close" ? ")" : token.kind.toUpperCase()}' in search query.`);
+    }
+  };
+
+  if (tokens.length === 0) throw new QueryError("The search query is empty.");
+  const root = parseOr();
+  if (position < tokens.length) throw new QueryError("Unexpected ')' in search query.");
+  return root;
+};
+
+// Whether any node in the tree satisfies the predicate. The caller uses it to
+// decide what the SQL has to fetch: bodies only for text matches, and tags
+// only for tag: terms.
+export const someNode = (node: QueryNode, predicate: (node: QueryNode) => boolean): boolean => {
+  if (predicate(node)) return true;
+  if (node.type === "not") return someNode(node.operand, predicate);
+  if (node.type === "and" || node.type === "or") return node.operands.some(operand => someNode(operand, predicate));
+  return false;
+};
+
+// The text values a matching note is looked for by, for relevance ranking.
+// Terms under a negation are left out: a note matches them by lacking them,
+// so they say nothing about how well it matches.
+export const positiveTextTerms = (node: QueryNode): string[] => {
+  switch (node.type) {
+    case "text":
+      return [node.value];
+    case "and":
+    case "or":
+      return node.operands.flatMap(positiveTextTerms);
+    default:
+      return [];
+  }
+};
+
+// The scopes beyond the live notes that a query asks for: its in: terms that
+// are not under a negation. A negated one asks only to leave notes out, so
+// `-in:archived` searches the live notes, not everything but the archive; an
+// in: term under OR still widens, since that branch can match on it alone.
+export const positiveScopes = (node: QueryNode): QueryScope[] => {
+  switch (node.type) {
+    case "in":
+      return [node.scope];
+    case "and":
+    case "or":
+      return [...new Set(node.operands.flatMap(positiveScopes))];
+    default:
+      return [];
+  }
+};
+
+// What the evaluator needs to know about one note. `tagKeys` holds the
+// tagKey() form of every tag on the note, so tag: compares by the same
+// identity rule as bear_list_by_tag.
+export interface QuerySubject {
+  title: string;
+  body: string;
+  tagKeys: Set<string>;
+  isTrashed: boolean;
+  isArchived: boolean;
+}
+
+export const matchesQuery = (node: QueryNode, subject: QuerySubject): boolean => {
+  switch (node.type) {
+    case "text":
+      return (
+        containsFolded(subject.title, node.value) ||
+        (node.field === "any" && containsFolded(subject.body, node.value))
+      );
+    case "tag":
+      return subject.tagKeys.has(tagKey(node.name));
+    case "in":
+      // Same reading as listArchivedNotes: a trashed note is in the trash,
+      // whatever its archived flag says.
+      return node.scope === "trash" ? subject.isTrashed : subject.isArchived && !subject.isTrashed;
+    case "not":
+      return !matchesQuery(node.operand, subject);
+    case "and":
+      return node.operands.every(operand => matchesQuery(operand, subject));
+    case "or":
+      return node.operands.some(operand => matchesQuery(operand, subject));
+  }
+};
@@ -1,13 +1,42 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Database } from "bun:sqlite";
 import { closeDatabase } from "./database.js";
 import { createBearServer } from "./tools.js";
+import { setSearchIndex } from "./bear.js";
+import { openSearchIndex } from "./search-index.js";
 
 const server = createBearServer();
 
-// One cleanup for every shutdown path. closeDatabase() nulls its handle, so
-// calling it more than once is safe.
+// The optional search index (src/search-index.ts), enabled by naming a file
+// for it. A file that cannot be opened disables the index rather than the
+// server: every search still works, it just scans. An index that opens but
+// then fails is reported the first time only, not on every search.
+let searchIndex: Database | null = null;
+let fallbackReported = false;
+const reportFallback = (reason: string): void => {
+  if (fallbackReported) return;
+  fallbackReported = true;
+  console.error("Search index unavailable, scanning instead:", reason);
+};
+const searchIndexPath = process.env.BEAR_MCP_SEARCH_INDEX;
+if (searchIndexPath) {
+  try {
+    searchIndex = openSearchIndex(searchIndexPath);
+    setSearchIndex(searchIndex, reportFallback);
+  } catch (error) {
+    console.error("Search index disabled:", error instanceof Error ? error.message : error);
+  }
+}
+
+// One cleanup for every shutdown path. closeDatabase() nulls its handle, and
+// so does the index close below, so calling it more than once is safe.
 const shutdown = (): void => {
   closeDatabase();
+  if (searchIndex) {
+    setSearchIndex(null);
+    searchIndex.close();
+    searchIndex = null;
+  }
 };
 
 // The path that actually happens: Claude Code shuts a stdio server down by
@@ -0,0 +1,35 @@
+import { test, expect, describe } from "bun:test";
+import { buildSnippets } from "./snippets";
+
+const options = { count: 3, length: 20 };
+
+describe("buildSnippets", () => {
+  test("marks the match in its original spelling, with context cut at word boundaries", () => {
+    const body = "The quarterly review covers the Roadmap for next year and beyond it all";
+    expect(buildSnippets(body, "roadmap", options)).toEqual(["…covers the «Roadmap» for next…"]);
+  });
+
+  test("a decomposed accent in the body is marked whole, not split from its base letter", () => {
+    const body = "agenda: nästa möte är på fredag";
+    const [snippet] = buildSnippets(body, "MÖTE", options);
+    expect(snippet).toContain("«möte»");
+  });
+
+  test("a match after a character that lower-cases to two code units is still placed exactly", () => {
+    const body = "İİİİ stanbul trip";
+    expect(buildSnippets(body, "stanbul", { count: 1, length: 200 })).toEqual(["İİİİ «stanbul» trip"]);
+  });
+
+  test("nearby matches share one snippet; distant ones get their own, up to the count", () => {
+    const filler = " lorem ipsum dolor sit amet".repeat(10);
+    const body = `plan a plan b${filler} plan c${filler} plan d`;
+    const snippets = buildSnippets(body, "plan", { count: 2, length: 20 });
+    expect(snippets).toHaveLength(2);
+    expect(snippets[0]).toStartWith("«plan» a «plan» b");
+    expect(snippets[1]).toContain("«plan» c");
+  });
+
+  test("no match, no snippets", () => {
+    expect(buildSnippets("nothing here", "absent", options)).toEqual([]);
+  });
+});
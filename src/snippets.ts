@@ -0,0 +1,93 @@
+// Match snippets for bear_search: a few short excerpts of a note's body around
+// the places the term matched, so the caller can see why a note matched
+// without fetching it. Pure functions, no SQL.
+//
+// The match itself runs over folded text, but the excerpt has to be cut from
+// the original, and the two do not line up: NFC composes "o" + U+0308 into
+// one "ö", and toLowerCase() expands "İ" into two code units. findFolded
+// (text-match.ts) carries match offsets back to the original, and cuts are
+// only ever made on a combining-sequence boundary, so an excerpt never splits
+// a surrogate pair or strands an accent.
+
+import { findFolded } from "./text-match.js";
+
+export interface SnippetOptions {
+  // Most snippets per note.
+  count: number;
+  // Characters of context around each match, split between both sides.
+  length: number;
+}
+
+export const DEFAULT_SNIPPET_LENGTH = 80;
+export const MAX_SNIPPETS = 10;
+export const MIN_SNIPPET_LENGTH = 20;
+export const MAX_SNIPPET_LENGTH = 500;
+
+// Wrapped around each match inside a snippet. Not Markdown: `**` and `==`
+// already mean something in a Bear note, and an excerpt quoting one would be
+// ambiguous.
+export const MATCH_OPEN = "«";
+export const MATCH_CLOSE = "»";
+
+const ELLIPSIS = "…";
+
+const isContinuation = (text: string, index: number): boolean => {
+  const code = text.charCodeAt(index);
+  if (code >= 0xdc00 && code <= 0xdfff) return true;
+  return /\p{M}/u.test(String.fromCodePoint(text.codePointAt(index) ?? 0));
+};
+
+// Moves a cut point to the nearest sequence boundary outside it, then to a
+// word boundary if one is within `slack` characters: outward first, so the
+// snippet gains the rest of a word rather than losing it, else inward.
+const snapStart = (text: string, index: number, slack: number): number => {
+  let start = Math.max(0, index);
+  while (start > 0 && isContinuation(text, start)) start -= 1;
+  if (start === 0 || /\s/.test(text[start - 1])) return start;
+  const before = text.slice(Math.max(0, start - slack), start).search(/\S*$/);
+  if (before > 0 || start - slack <= 0) return Math.max(0, start - slack) + before;
+  const after = text.slice(start, start + slack).search(/\s/);
+  return after === -1 ? start : start + after + 1;
+};
+
+const snapEnd = (text: string, index: number, slack: number): number => {
+  let end = Math.min(text.length, index);
+  while (end < text.length && isContinuation(text, end)) end += 1;
+  if (end === text.length || /\s/.test(text[end])) return end;
+  const after = text.slice(end, end + slack).search(/\s/);
+  if (after !== -1) return end + after;
+  if (end + slack >= text.length) return text.length;
+  const from = Math.max(0, end - slack);
+  const before = text.slice(from, end).search(/\s\S*$/);
+  return before === -1 ? end : from + before;
+};
+
+// Up to `count` snippets of `body` around matches of `term`, in body order.
+// Matches close enough to share a snippet are all marked in it rather than
+// repeated in a second one.
+export const buildSnippets = (body: string, term: string, options: SnippetOptions): string[] => {
+  const ranges = findFolded(body, term);
+  const side = Math.floor(options.length / 2);
+  const slack = Math.floor(side / 3);
+  const snippets: string[] = [];
+
+  let next = 0;
+  while (next < ranges.length && snippets.length < options.count) {
+    const { start: matchStart, end: matchEnd } = ranges[next];
+    const start = Math.min(snapStart(body, matchStart - side, slack), matchStart);
+    const end = Math.max(snapEnd(body, matchEnd + side, slack), matchEnd);
+
+    let text = start > 0 ? ELLIPSIS : "";
+    let cursor = start;
+    while (next < ranges.length && ranges[next].end <= end) {
+      const { start: from, end: to } = ranges[next];
+      text += `${body.slice(cursor, from)}${MATCH_OPEN}${body.slice(from, to)}${MATCH_CLOSE}`;
+      cursor = to;
+      next += 1;
+    }
+    text += body.slice(cursor, end) + (end < body.length ? ELLIPSIS : "");
+    snippets.push(text.replace(/\s+/g, " ").trim());
+  }
+
+  return snippets;
+};
@@ -1,5 +1,5 @@
 import { test, expect, describe } from "bun:test";
-import { foldForMatch, containsFolded, equalsFolded } from "./text-match";
+import { foldForMatch, containsFolded, equalsFolded, findFolded } from "./text-match";
 
 describe("foldForMatch", () => {
   test("folds non-ASCII case, which SQLite's LOWER() leaves untouched", () => {
@@ -37,3 +37,18 @@ describe("equalsFolded", () => {
     expect(equalsFolded("mo\u0308te", "m\u00f6te")).toBe(true);
   });
 });
+
+describe("findFolded", () => {
+  test("returns offsets into the text as stored, whatever its form", () => {
+    const text = "Mo\u0308te, MÖTE, möte";
+    expect(findFolded(text, "möte").map(range => text.slice(range.start, range.end))).toEqual(["Mo\u0308te", "MÖTE", "möte"]);
+  });
+
+  test("does not match inside a character and its combining mark", () => {
+    expect(findFolded("mo\u0308te", "mo")).toEqual([]);
+  });
+
+  test("an empty needle matches nothing", () => {
+    expect(findFolded("text", "")).toEqual([]);
+  });
+});
@@ -19,3 +19,49 @@ export const containsFolded = (haystack: string, needle: string): boolean =>
 
 export const equalsFolded = (left: string, right: string): boolean =>
   foldForMatch(left) === foldForMatch(right);
+
+export interface TextRange {
+  start: number;
+  // Exclusive.
+  end: number;
+}
+
+// A base character and the combining marks after it: the unit NFC composes,
+// so folding the haystack one cluster at a time folds it as a whole would.
+const CLUSTER = /\P{M}\p{M}*|\p{M}+/gsu;
+
+// Where `needle` occurs in `haystack` under foldForMatch, as offsets into the
+// haystack as stored, left to right and not overlapping. Folding can change a
+// string's length (a decomposed "ö" is two code units, its NFC form one), so
+// matches are found in the folded text and mapped back cluster by cluster; a
+// match that would start or end inside a cluster is no match. Folding a
+// cluster at a time agrees with folding the whole text except for
+// context-sensitive lower-casing (a final Greek sigma), where text that
+// containsFolded matches can yield no range here: a missed range, never a
+// misplaced one.
+export const findFolded = (haystack: string, needle: string): TextRange[] => {
+  const target = foldForMatch(needle);
+  if (!target) return [];
+
+  let folded = "";
+  // Folded offset of each cluster start, to its offset in the haystack.
+  const boundaries = new Map<number, number>();
+  for (const cluster of haystack.matchAll(CLUSTER)) {
+    boundaries.set(folded.length, cluster.index);
+    folded += foldForMatch(cluster[0]);
+  }
+  boundaries.set(folded.length, haystack.length);
+
+  const ranges: TextRange[] = [];
+  for (let at = folded.indexOf(target); at !== -1; ) {
+    const start = boundaries.get(at);
+    const end = boundaries.get(at + target.length);
+    if (start !== undefined && end !== undefined) {
+      ranges.push({ start, end });
+      at = folded.indexOf(target, at + target.length);
+    } else {
+      at = folded.indexOf(target, at + 1);
+    }
+  }
+  return ranges;
+};
@@ -0,0 +1,72 @@
+import { test, expect, describe } from "bun:test";
+import { parseChecklist, countChecklist, setChecklistItem, ChecklistError } from "./todos";
+
+describe("parseChecklist", () => {
+  test("finds open and done items with their 1-based line and trimmed text", () => {
+    const body = "# Groceries\n- [ ] milk\n- [x] bread \n- [X] eggs";
+    expect(parseChecklist(body)).toEqual([
+      { line: 2, text: "milk", done: false },
+      { line: 3, text: "bread", done: true },
+      { line: 4, text: "eggs", done: true },
+    ]);
+  });
+
+  test("accepts every bullet and nesting, but not a plain list item or a bare box", () => {
+    const body = "Title\n* [ ] star\n  + [ ] nested plus\n- plain item\n[ ] no bullet\n-[ ] no space";
+    expect(parseChecklist(body).map(item => item.text)).toEqual(["star", "nested plus"]);
+  });
+
+  test("an item carries the nearest heading above it, not the title", () => {
+    const body = "# Standup\n- [ ] before any heading\n## Today\n- [ ] ship it\n### Blocked ###\n- [x] review";
+    expect(parseChecklist(body)).toEqual([
+      { line: 2, text: "before any heading", done: false },
+      { line: 4, text: "ship it", done: false, heading: "Today" },
+      { line: 6, text: "review", done: true, heading: "Blocked" },
+    ]);
+  });
+
+  test("ignores items and headings inside fenced code", () => {
+    const body = "# Doc\n## Real\n```md\n## Fake\n- [ ] quoted\n```\n- [ ] real item\n~~~\n- [ ] also quoted\n```\n~~~~";
+    expect(parseChecklist(body)).toEqual([{ line: 7, text: "real item", done: false, heading: "Real" }]);
+  });
+
+  test("an empty item is still an item", () => {
+    expect(parseChecklist("T\n- [ ]")).toEqual([{ line: 2, text: "", done: false }]);
+  });
+
+  test("Windows line endings do not break matching", () => {
+    expect(parseChecklist("T\r\n- [x] done\r\n").map(item => item.done)).toEqual([true]);
+  });
+});
+
+describe("countChecklist", () => {
+  test("counts open and done items the way Bear's counters do", () => {
+    expect(countChecklist("T\n- [ ] a\n- [x] b\n- [ ] c")).toEqual({ open: 2, done: 1 });
+    expect(countChecklist("no todos")).toEqual({ open: 0, done: 0 });
+  });
+});
+
+describe("setChecklistItem", () => {
+  const body = "# Standup\n#work #my tag#\n- [ ] ship it\n  * [x] review\n- [ ] ship it";
+
+  test("flips only the located box, leaving every other character alone", () => {
+    expect(setChecklistItem(body, { line: 3, text: "ship it" }, true)).toBe(
+      "# Standup\n#work #my tag#\n- [x] ship it\n  * [x] review\n- [ ] ship it"
+    );
+    expect(setChecklistItem(body, { line: 4, text: " review " }, false)).toBe(
+      "# Standup\n#work #my tag#\n- [ ] ship it\n  * [ ] review\n- [ ] ship it"
+    );
+  });
+
+  test("an item already in the asked state comes back unchanged", () => {
+    expect(setChecklistItem(body, { line: 4, text: "review" }, true)).toBe(body);
+  });
+
+  test("refuses a line that no longer holds the item, and says where it went", () => {
+    const edited = `# Standup\n\n${body.split("\n").slice(1).join("\n")}`;
+    expect(() => setChecklistItem(edited, { line: 4, text: "review" }, false)).toThrow(ChecklistError);
+    expect(() => setChecklistItem(edited, { line: 4, text: "review" }, false)).toThrow("now on line 5");
+    expect(() => setChecklistItem(edited, { line: 3, text: "ship it" }, true)).toThrow("lines 4, 6");
+    expect(() => setChecklistItem(body, { line: 2, text: "gone" }, true)).toThrow("no longer in the note");
+  });
+});
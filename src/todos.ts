@@ -0,0 +1,95 @@
+// Checklist items in a note body: Bear's `- [ ]` open and `- [x]` done todos.
+// Pure functions, no SQL: a body in, the items out, each with where it sits.
+//
+// Lines are numbered and fenced code skipped as note-lines.ts does it. An
+// item's heading is the nearest heading above it, not counting the title; an
+// item above every heading has none.
+
+import { proseLines, headingOf } from "./note-lines.js";
+
+// A locator that no longer points at the item it was issued for: the note
+// changed in between. Thrown rather than guessed around, so an edit never
+// lands on a different item than the one the caller meant.
+export class ChecklistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChecklistError";
+  }
+}
+
+// Where an item was when it was listed: its line, and its text as a check
+// that the line still holds it.
+export interface ItemLocator {
+  line: number;
+  text: string;
+}
+
+export interface ChecklistItem {
+  line: number;
+  // The item's text after the checkbox, trimmed.
+  text: string;
+  done: boolean;
+  heading?: string;
+}
+
+// `-`, `*` or `+`, a space, then the box. Bear writes `-`, but it renders the
+// other two bullets as checkboxes as well. Indentation is allowed, so items
+// nested under another item count.
+const CHECKBOX = /^\s*[-*+] \[([ xX])\](?:\s+(.*))?$/;
+const BOX = /\[[ xX]\]/;
+
+export const parseChecklist = (body: string): ChecklistItem[] => {
+  const items: ChecklistItem[] = [];
+  let heading: string | undefined;
+
+  for (const line of proseLines(body)) {
+    const box = CHECKBOX.exec(line.text);
+    if (box) {
+      const item: ChecklistItem = { line: line.number, text: (box[2] ?? "").trim(), done: box[1] !== " " };
+      if (heading !== undefined) item.heading = heading;
+      items.push(item);
+      continue;
+    }
+
+    const found = headingOf(line.text);
+    if (found && line.number > 1) heading = found.text;
+  }
+
+  return items;
+};
+
+// Open and done counts, the two numbers Bear keeps per note as
+// ZTODOINCOMPLETED and ZTODOCOMPLETED.
+export const countChecklist = (body: string): { open: number; done: number } => {
+  const items = parseChecklist(body);
+  const done = items.filter(item => item.done).length;
+  return { open: items.length - done, done };
+};
+
+// The body with one item checked or unchecked and every other character left
+// as it was, the title and tag lines included. An item already in the asked
+// state comes back unchanged.
+export const setChecklistItem = (body: string, locator: ItemLocator, done: boolean): string => {
+  const items = parseChecklist(body);
+  const item = items.find(candidate => candidate.line === locator.line);
+  const expected = locator.text.trim();
+
+  if (!item || item.text !== expected) {
+    const moved = items.filter(candidate => candidate.text === expected);
+    const hint =
+      moved.length === 1
+        ? ` It is now on line ${moved[0].line}.`
+        : moved.length > 1
+          ? ` It now appears on lines ${moved.map(candidate => candidate.line).join(", ")}.`
+          : " It is no longer in the note.";
+    throw new ChecklistError(
+      `Line ${locator.line} is not the item "${expected}": the note changed since the item was listed.${hint} ` +
+        "List the todos again and retry with the new line."
+    );
+  }
+  if (item.done === done) return body;
+
+  const lines = body.split("\n");
+  lines[item.line - 1] = lines[item.line - 1].replace(BOX, done ? "[x]" : "[ ]");
+  return lines.join("\n");
+};
@@ -1,10 +1,14 @@
 import { test, expect, describe, beforeAll, afterAll, beforeEach } from "bun:test";
 import { Database } from "bun:sqlite";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
-import { createBearServer, toToolResult, handleError } from "./tools";
+import { createBearServer, toToolResult, handleError, ToolContent } from "./tools";
 import { setBearUrlRunner, resetBearUrlRunner, MAX_LIMIT } from "./bear";
-import { createBearTables, CORE_DATA_2021 } from "./bear-fixture";
+import { createBearTables, insertNote } from "./bear-fixture";
+import { CORE_DATA_EPOCH_OFFSET } from "./notes-query";
 
 // These tests cross the same seam the MCP client crosses: tools are invoked
 // through a connected client over an in-memory transport, so the zod schemas,
@@ -15,11 +19,8 @@ const buildFixture = (): Database => {
   const db = new Database(":memory:");
   createBearTables(db);
 
-  db.run(
-    `INSERT INTO ZSFNOTE (Z_PK, ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT, ZCREATIONDATE, ZMODIFICATIONDATE, ZTRASHED, ZARCHIVED) VALUES
-      (1, 'NOTE-A', 'Alpha', 'alpha body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 0),
-      (2, 'NOTE-B', 'Gamma archived', 'gamma body', ${CORE_DATA_2021}, ${CORE_DATA_2021}, 0, 1)`
-  );
+  insertNote(db, { pk: 1, id: "NOTE-A", title: "Alpha", text: "alpha body" });
+  insertNote(db, { pk: 2, id: "NOTE-B", title: "Gamma archived", text: "gamma body", archived: 1 });
   db.run(`INSERT INTO ZSFNOTETAG (Z_PK, ZTITLE) VALUES (10, 'work')`);
   db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (1, 10)`);
 
@@ -68,17 +69,31 @@ describe("tool registration", () => {
     expect(tools.map(tool => tool.name).sort()).toEqual([
       "bear_append",
       "bear_archive_note",
+      "bear_bulk_replace",
+      "bear_check_links",
       "bear_create_note",
       "bear_delete_tag",
+      "bear_edit_note",
+      "bear_get_attachment",
+      "bear_get_links",
       "bear_get_note",
+      "bear_get_outline",
+      "bear_get_section",
       "bear_list_archived",
       "bear_list_by_tag",
       "bear_list_tags",
+      "bear_list_todos",
+      "bear_list_trashed",
+      "bear_list_untagged",
       "bear_prepend",
       "bear_rename_tag",
       "bear_replace_content",
+      "bear_replace_section",
       "bear_search",
+      "bear_set_todo",
+      "bear_tag_note",
       "bear_trash_note",
+      "bear_untag_note",
     ]);
   });
 
@@ -131,6 +146,52 @@ describe("read tools against the fixture database", () => {
     expect(textOf(result)).toBe("Error: Note not found: NOPE");
   });
 
+  test("bear_get_attachment turns an unknown id into an error result", async () => {
+    const result = await call("bear_get_attachment", { attachmentId: "NOPE" });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe("Error: Attachment not found: NOPE");
+  });
+
+  test("bear_get_attachment sends a HEIC photo as a resource and a PNG as an image", async () => {
+    // Attachments are read from beside the database file, so this one is on disk.
+    const dir = mkdtempSync(join(tmpdir(), "bear-tools-attachments-"));
+    const fileDb = new Database(join(dir, "database.sqlite"));
+    createBearTables(fileDb);
+    insertNote(fileDb, { pk: 1, id: "NOTE-A", title: "Alpha", text: "alpha body" });
+    fileDb.run(
+      `INSERT INTO ZSFNOTEFILE (Z_PK, ZNOTE, ZUNIQUEIDENTIFIER, ZFILENAME, ZNORMALIZEDFILEEXTENSION, ZFILESIZE, ZWIDTH, ZHEIGHT, ZUNUSED) VALUES
+        (1, 1, 'FILE-HEIC', 'photo.heic', 'heic', 4, 640, 480, 0),
+        (2, 1, 'FILE-PNG', 'diagram.png', 'png', 4, 640, 480, 0)`
+    );
+    for (const [id, filename] of [["FILE-HEIC", "photo.heic"], ["FILE-PNG", "diagram.png"]]) {
+      mkdirSync(join(dir, "Local Files", "Note Images", id), { recursive: true });
+      writeFileSync(join(dir, "Local Files", "Note Images", id, filename), "data");
+    }
+    const fileServer = createBearServer(() => fileDb);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const fileClient = new Client({ name: "attachment-test", version: "1.0.0" });
+    await Promise.all([fileClient.connect(clientTransport), fileServer.connect(serverTransport)]);
+
+    try {
+      const heic = await fileClient.callTool({ name: "bear_get_attachment", arguments: { attachmentId: "FILE-HEIC" } });
+      expect((heic.content as unknown[])[1]).toMatchObject({
+        type: "resource",
+        resource: { mimeType: "image/heic", blob: Buffer.from("data").toString("base64") },
+      });
+
+      const png = await fileClient.callTool({ name: "bear_get_attachment", arguments: { attachmentId: "FILE-PNG" } });
+      expect((png.content as unknown[])[1]).toEqual({
+        type: "image",
+        mimeType: "image/png",
+        data: Buffer.from("data").toString("base64"),
+      });
+    } finally {
+      await fileClient.close();
+      fileDb.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
   test("bear_list_by_tag echoes the tag alongside the page", async () => {
     const result = await call("bear_list_by_tag", { tag: "work" });
     const page = JSON.parse(textOf(result));
@@ -165,6 +226,12 @@ describe("schema validation at the tool surface", () => {
     expect(textOf(result)).toMatch(/Note title must not be empty/);
   });
 
+  test("a malformed search query becomes an error result naming the problem", async () => {
+    const result = await call("bear_search", { query: "(invoice OR" });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe("Error: Search query ends where a term was expected.");
+  });
+
   test("a limit above MAX_LIMIT is rejected, not clamped, at this surface", async () => {
     const result = await call("bear_search", { limit: MAX_LIMIT + 1 });
     expect(result.isError).toBe(true);
@@ -180,14 +247,128 @@ describe("write tools and error wrapping", () => {
       return { ok: true };
     });
 
-    const result = await call("bear_create_note", { title: "My Note", text: "body" });
+    const result = await call("bear_append", { noteId: "NOTE-A", text: "body" });
     expect(result.isError).toBeUndefined();
     expect(textOf(result)).toBe(
-      'Sent to Bear: create note "My Note". Bear does not report back, so this is not confirmation that it was applied.'
+      "Sent to Bear: append text to note NOTE-A. Bear does not report back, so this is not confirmation that it was applied."
     );
     expect(captured).toHaveLength(1);
   });
 
+  test("bear_create_note still sends the note when Bear's database cannot be read", async () => {
+    const captured: string[] = [];
+    setBearUrlRunner(async (url) => {
+      captured.push(url);
+      return { ok: true };
+    });
+    const lockedServer = createBearServer(() => {
+      throw new Error("authorization denied");
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const lockedClient = new Client({ name: "locked-db-test", version: "1.0.0" });
+    await Promise.all([lockedClient.connect(clientTransport), lockedServer.connect(serverTransport)]);
+
+    try {
+      const result = await lockedClient.callTool({ name: "bear_create_note", arguments: { title: "My Note", text: "body" } });
+      expect(result.isError).toBeUndefined();
+      expect(textOf(result)).toBe(
+        'Sent to Bear: create note "My Note". Bear does not report back, so this is not confirmation that it was applied. ' +
+          "Bear's database could not be read, so the new note's id is unknown."
+      );
+      expect(captured).toHaveLength(1);
+    } finally {
+      await lockedClient.close();
+    }
+  });
+
+  test("a stale expectedModifiedAt is a conflict error, with nothing sent", async () => {
+    const result = await call("bear_replace_content", {
+      noteId: "NOTE-A",
+      title: "Alpha",
+      text: "overwritten",
+      expectedModifiedAt: "2020-12-31T23:59:59Z",
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toStartWith(
+      "Error: Note NOTE-A has changed since it was read: expected modifiedAt 2020-12-31T23:59:59Z, but Bear's database has 2021-01-01T00:00:00Z."
+    );
+  });
+
+  test("bear_create_note returns the id, createdAt and tags of the note Bear created", async () => {
+    setBearUrlRunner(async () => {
+      const now = Date.now() / 1000 - CORE_DATA_EPOCH_OFFSET;
+      insertNote(db, { pk: 3, id: "NOTE-NEW", title: "My Note", text: "# My Note\n#work\n\nbody", createdAt: now, modifiedAt: now });
+      db.run(`INSERT INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (3, 10)`);
+      return { ok: true };
+    });
+
+    try {
+      const result = await call("bear_create_note", { title: "My Note", text: "body", tags: ["work"] });
+      expect(result.isError).toBeUndefined();
+      const created = JSON.parse(textOf(result));
+      expect(created.id).toBe("NOTE-NEW");
+      expect(created.title).toBe("My Note");
+      expect(created.createdAt).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+      expect(created.tags).toEqual(["work"]);
+    } finally {
+      db.run(`DELETE FROM Z_5TAGS WHERE Z_5NOTES = 3`);
+      db.run(`DELETE FROM ZSFNOTE WHERE Z_PK = 3`);
+    }
+  });
+
+  test("bear_create_note returns only the id when the created note cannot be read back", async () => {
+    setBearUrlRunner(async () => {
+      const now = Date.now() / 1000 - CORE_DATA_EPOCH_OFFSET;
+      insertNote(db, { pk: 3, id: "NOTE-NEW", title: "My Note", text: "# My Note\n\nbody", createdAt: now, modifiedAt: now });
+      return { ok: true };
+    });
+    // The first open reads the baseline; by the second, the note is gone.
+    let opens = 0;
+    const vanishingServer = createBearServer(() => {
+      opens += 1;
+      if (opens > 1) db.run(`DELETE FROM ZSFNOTE WHERE Z_PK = 3`);
+      return db;
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const vanishingClient = new Client({ name: "vanishing-note-test", version: "1.0.0" });
+    await Promise.all([vanishingClient.connect(clientTransport), vanishingServer.connect(serverTransport)]);
+
+    try {
+      const result = await vanishingClient.callTool({ name: "bear_create_note", arguments: { title: "My Note", text: "body" } });
+      expect(JSON.parse(textOf(result))).toEqual({
+        id: "NOTE-NEW",
+        message: "The note was created, but its details could not be read back.",
+      });
+    } finally {
+      await vanishingClient.close();
+      db.run(`DELETE FROM ZSFNOTE WHERE Z_PK = 3`);
+    }
+  });
+
+  test("confirm polls the database and says what it saw", async () => {
+    setBearUrlRunner(async () => {
+      db.run(`UPDATE ZSFNOTE SET ZTEXT = ZTEXT || '\nconfirmed text' WHERE ZUNIQUEIDENTIFIER = 'NOTE-A'`);
+      return { ok: true };
+    });
+
+    try {
+      const result = await call("bear_append", { noteId: "NOTE-A", text: "confirmed text", confirm: true });
+      expect(result.isError).toBeUndefined();
+      expect(textOf(result)).toBe("Confirmed: append text to note NOTE-A. The change is visible in Bear's database.");
+    } finally {
+      db.run(`UPDATE ZSFNOTE SET ZTEXT = 'alpha body' WHERE ZUNIQUEIDENTIFIER = 'NOTE-A'`);
+    }
+  });
+
+  test("confirm reports a write to an unknown note as contradicted", async () => {
+    setBearUrlRunner(async () => ({ ok: true }));
+
+    const result = await call("bear_trash_note", { noteId: "NOPE", confirm: true });
+    expect(textOf(result)).toBe(
+      "Contradicted: sent to Bear: move note NOPE to trash, but Bear's database shows otherwise (no note with id NOPE exists)."
+    );
+  });
+
   test("a BearError from the write path becomes an isError result through the registration loop", async () => {
     setBearUrlRunner(async () => ({ ok: false, reason: "simulated failure" }));
 
@@ -213,6 +394,11 @@ describe("result shaping helpers", () => {
     });
   });
 
+  test("toToolResult passes prebuilt content blocks through", () => {
+    const blocks = [{ type: "image" as const, data: "iVBO", mimeType: "image/png" }];
+    expect(toToolResult(new ToolContent(blocks))).toEqual({ content: blocks });
+  });
+
   test("handleError uses the Error message", () => {
     expect(handleError(new Error("boom"))).toEqual({
       content: [{ type: "text", text: "Error: boom" }],
@@ -8,23 +8,56 @@ import {
   getNoteContent,
   appendToNote,
   prependToNote,
+  addToSection,
+  replaceSection,
+  editNote,
+  previewBulkReplace,
+  applyBulkReplace,
   replaceNoteContent,
   listNotesByTag,
+  listUntaggedNotes,
   getAllTags,
+  getTagTree,
   trashNote,
   archiveNote,
   listArchivedNotes,
+  listTrashedNotes,
+  listTodos,
+  setTodo,
+  getNoteLinks,
+  checkLinks,
+  getAttachment,
+  getNoteOutline,
+  getNoteSection,
   renameTag,
   deleteTag,
+  tagNote,
+  untagNote,
   MAX_LIMIT,
+  DEFAULT_CONFIRM_TIMEOUT_MS,
 } from "./bear.js";
+import type { WriteConfirmation } from "./write-confirm.js";
+import { MAX_ATTACHMENT_BYTES, isInlineImage } from "./attachments.js";
+import { MAX_SNIPPETS, MIN_SNIPPET_LENGTH, MAX_SNIPPET_LENGTH, DEFAULT_SNIPPET_LENGTH } from "./snippets.js";
 
-export type ToolResult = { content: Array<{ type: "text"; text: string }>; isError?: true };
+export type ContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "resource"; resource: { uri: string; mimeType: string; blob: string } };
 
-// Shapes a handler's return value into a tool result. A string is sent as-is;
-// anything else is serialized as pretty JSON. The one place success output is
-// formatted.
+export type ToolResult = { content: ContentBlock[]; isError?: true };
+
+// Content blocks a handler has already built, for results that are not text:
+// returned as they are instead of being serialized.
+export class ToolContent {
+  constructor(readonly blocks: ContentBlock[]) {}
+}
+
+// Shapes a handler's return value into a tool result. A string is sent as-is,
+// ToolContent passes through, and anything else is serialized as pretty JSON.
+// The one place success output is formatted.
 export const toToolResult = (value: string | object): ToolResult => {
+  if (value instanceof ToolContent) return { content: value.blocks };
   const text = typeof value === "string" ? value : JSON.stringify(value, null, 2);
   return { content: [{ type: "text", text }] };
 };
@@ -70,12 +103,74 @@ const paginationSchema = {
     .describe("Number of matching notes to skip, for paging past the first page"),
 };
 
+// Date range filters, shared by the same list tools. Parsed in date-range.ts
+// rather than here, so an unreadable date is reported with the forms that work.
+const dateExpression = (what: string) =>
+  z.string().optional().describe(
+    `${what}: ISO-8601 (2025-03-01, 2025-03, 2025-03-01T14:30, 2025-03-01T14:30Z), ` +
+      "today / yesterday / tomorrow, now, or a span before now (12h, 7d, 2w)"
+  );
+
+const dateRangeSchema = {
+  createdAfter: dateExpression("Only notes created at or after this"),
+  createdBefore: dateExpression("Only notes created before this"),
+  modifiedAfter: dateExpression("Only notes modified at or after this"),
+  modifiedBefore: dateExpression("Only notes modified before this"),
+  timeZone: z.string().optional()
+    .describe('IANA time zone for dates without an offset and for "today" (e.g. Europe/Stockholm). Defaults to UTC.'),
+};
+
+const includeDescendantsSchema = z.boolean().optional()
+  .describe("Also match notes tagged only with a nested tag below this one (work also finds work/clients)");
+
+// Sorting, shared by the same list tools.
+const sortSchema = {
+  sort: z.enum(["modified", "created", "title"]).optional()
+    .describe('What to order by: "modified" (default), "created" or "title" (case-insensitive). Ties are ordered by id.'),
+  direction: z.enum(["asc", "desc"]).optional()
+    .describe('"desc" (newest first) is the default for the dates, "asc" (A to Z) for the title'),
+  pinnedFirst: z.boolean().optional()
+    .describe("List pinned notes first, as Bear does, each group in the order above"),
+};
+
 // Bear's URL scheme is fire-and-forget: `open` returns as soon as macOS finds
 // a handler for bear://, and Bear reports nothing back. A write tool can only
 // honestly state what it sent, never that the change landed.
 const sentToBear = (what: string): string =>
   `Sent to Bear: ${what}. Bear does not report back, so this is not confirmation that it was applied.`;
 
+// The opt-in alternative to sentToBear: the write tool polled Bear's database
+// after sending, and reports what it saw there.
+const confirmSchema = {
+  confirm: z.boolean().optional()
+    .describe(`Wait up to ${DEFAULT_CONFIRM_TIMEOUT_MS / 1000}s for the change to show up in Bear's database, and report whether it did`),
+};
+
+// Optimistic concurrency for the writes that replace text: the modifiedAt
+// the caller's edit is based on.
+const expectedModifiedAtSchema = {
+  expectedModifiedAt: z.string().datetime({ message: "expectedModifiedAt must be an ISO-8601 UTC timestamp" }).optional()
+    .describe("The note's modifiedAt from bear_get_note. If the note has changed since, the write is refused with a conflict error and nothing is sent"),
+};
+
+// A heading target for the section-scoped writes.
+const headingSchema = z.string().trim().min(1, "Heading must not be empty")
+  .describe("Heading text without the # markers, or a path like \"Q3/Risks\" when the text is not unique");
+
+const reportWrite = (what: string, confirmation: WriteConfirmation | undefined): string => {
+  if (!confirmation) return sentToBear(what);
+  const seconds = Math.round(confirmation.waitedMs / 1000);
+  switch (confirmation.status) {
+    case "confirmed":
+      return `Confirmed: ${what}. The change is visible in Bear's database.`;
+    case "not-observed":
+      return `Not observed after ${seconds}s: sent to Bear: ${what}, but the change has not shown up in Bear's database. ` +
+        "Bear may still apply it, or may have ignored it.";
+    case "contradicted":
+      return `Contradicted: sent to Bear: ${what}, but Bear's database shows otherwise (${confirmation.reason}).`;
+  }
+};
+
 // Every Bear tool, described as data. Adding a tool is adding a row; the
 // try/catch and result shaping in createBearServer are written once for all
 // of them. getDb stays a thunk so the Bear database is opened on the first
@@ -83,30 +178,68 @@ const sentToBear = (what: string): string =>
 const buildTools = (getDb: () => Database = getDatabase): ToolDefinition[] => [
   defineTool({
     name: "bear_create_note",
-    description: "Create a new note in Bear",
+    description: `Create a new note in Bear and return its id, createdAt and tags. Bear assigns the id and never reports it, so the tool waits up to ${DEFAULT_CONFIRM_TIMEOUT_MS / 1000}s for the new note to show up in Bear's database, and says so if it does not. If the database cannot be read, the note is still sent, without its id.`,
     inputSchema: z.object({
       title: noteTitle.describe("Note title"),
       text: z.string().describe("Note content (Markdown)"),
       tags: z.array(z.string()).optional().describe("Tags to add to the note (a leading # is optional)")
     }),
     handler: async ({ title, text, tags }) => {
-      await createNote(title, text, tags);
-      return sentToBear(`create note "${title}"`);
+      const what = `create note "${title}"`;
+      const confirmation = await createNote(title, text, tags, { confirm: true }, getDb);
+      if (!confirmation) {
+        return `${sentToBear(what)} Bear's database could not be read, so the new note's id is unknown.`;
+      }
+      if (confirmation.status === "not-observed") {
+        return `${reportWrite(what, confirmation)} No new note titled "${title}" was found, so its id is unknown.`;
+      }
+      if (confirmation.status !== "confirmed" || !confirmation.noteId) return reportWrite(what, confirmation);
+
+      // Only what was read back is reported: a note gone again by now has an
+      // id, but no title, createdAt or tags anyone has seen.
+      const note = getNoteContent(confirmation.noteId, getDb());
+      if (!note) {
+        return { id: confirmation.noteId, message: "The note was created, but its details could not be read back." };
+      }
+      return { id: note.id, title: note.title, createdAt: note.createdAt, tags: note.tags };
     }
   }),
   defineTool({
     name: "bear_search",
-    description: "Search for notes in Bear by text or tag. Matching is case-insensitive, including for non-ASCII characters, and the term matches literally (no wildcards). Returns one page of notes: `count` is the size of that page, and `hasMore` says whether further notes matched.",
+    description: "Search for notes in Bear by text or tags. Matching is case-insensitive, including for non-ASCII characters, and the term matches literally (no wildcards). Returns one page of notes: `count` is the size of that page, and `hasMore` says whether further notes matched.",
     inputSchema: z.object({
       term: z.string().optional().describe("Search term (free text). Blank means no text filter."),
       tag: z.string().optional().describe("Filter by tag (a leading # is optional). Blank means no tag filter."),
+      tagsAll: z.array(z.string()).optional().describe("Only notes carrying every one of these tags"),
+      tagsAny: z.array(z.string()).optional().describe("Only notes carrying at least one of these tags"),
+      tagsNone: z.array(z.string()).optional().describe("Only notes carrying none of these tags"),
+      includeDescendants: includeDescendantsSchema,
+      pinned: z.boolean().optional().describe("Only pinned notes (true) or only unpinned ones (false)"),
+      query: z.string().optional().describe(
+        'Search query: words must all match (implicit AND), "quoted phrases" match literally, OR and AND (upper case) combine, ' +
+          "-word / -tag:name / -(group) negate, and title:, tag:, in:archived and in:trash restrict a term. " +
+          "Searches live notes, plus the scopes its un-negated in: terms name. Combines with term and tag."
+      ),
+      order: z.enum(["modified", "relevance"]).optional().describe(
+        'Result order. "modified" (default): as `sort` and `direction` say, most recently modified first unless they say otherwise. "relevance": best match first, ' +
+          "weighing hits in the title and headings above hits in the body, with `sort` breaking ties; " +
+          "each note then carries a `score`. Needs a term or query text."
+      ),
+      snippets: z.number().int().min(0).max(MAX_SNIPPETS).optional().describe(
+        `Return up to this many excerpts per note around matches of \`term\`, each match wrapped in « » (max ${MAX_SNIPPETS}). ` +
+          "Saves fetching each note to see why it matched. Needs a term."
+      ),
+      snippetLength: z.number().int().min(MIN_SNIPPET_LENGTH).max(MAX_SNIPPET_LENGTH).optional()
+        .describe(`Characters of context around each match in a snippet (default ${DEFAULT_SNIPPET_LENGTH})`),
+      ...dateRangeSchema,
+      ...sortSchema,
       ...paginationSchema,
     }),
-    handler: ({ term, tag, limit, offset }) => searchNotes({ term, tag, limit, offset }, getDb())
+    handler: (options) => searchNotes(options, getDb())
   }),
   defineTool({
     name: "bear_get_note",
-    description: "Get the full content of a specific note. Works for trashed and archived notes too; the isTrashed and isArchived fields say which.",
+    description: "Get the full content of a specific note. Works for trashed and archived notes too; the isTrashed and isArchived fields say which. `attachments` lists the note's images and files (id, filename, type, mediaType, size, width and height for images, and the path on disk); fetch one with bear_get_attachment.",
     inputSchema: z.object({
       noteId: z.string().describe("Note ID (from search results)")
     }),
@@ -116,109 +249,349 @@ const buildTools = (getDb: () => Database = getDatabase): ToolDefinition[] => [
       return note;
     }
   }),
+  defineTool({
+    name: "bear_get_outline",
+    description: "Get a note's heading tree without its content: each heading's level, text, first and last line, and the characters in its section (subsections included), with its subheadings under `children`. Use it to read a long note one section at a time with bear_get_section. Headings inside fenced code are not headings; the title line is not part of the outline.",
+    inputSchema: z.object({
+      noteId: z.string().describe("Note ID (from search results)")
+    }),
+    handler: ({ noteId }) => {
+      const outline = getNoteOutline(noteId, getDb());
+      if (!outline) throw new Error(`Note not found: ${noteId}`);
+      return outline;
+    }
+  }),
+  defineTool({
+    name: "bear_get_section",
+    description: "Get one section of a note as Markdown: its heading line down to the next heading of the same or a higher level, subsections included, with its line range and heading path. The heading is matched case-insensitively by its text; when that is not unique, name it by its path from an enclosing heading, like `Q3/Risks`. Fails, listing the candidates, when the heading matches no section or several.",
+    inputSchema: z.object({
+      noteId: z.string().describe("Note ID (from search results)"),
+      heading: z.string().trim().min(1, "Heading must not be empty")
+        .describe("Heading text without the # markers, or a path like \"Q3/Risks\"")
+    }),
+    handler: ({ noteId, heading }) => {
+      const section = getNoteSection(noteId, heading, getDb());
+      if (!section) throw new Error(`Note not found: ${noteId}`);
+      return section;
+    }
+  }),
+  defineTool({
+    name: "bear_get_attachment",
+    description: `Get an image or file attached to a note, by the id bear_get_note lists under attachments. A PNG, JPEG, GIF or WebP image comes back as image content, anything else (HEIC and TIFF photos included) as an embedded binary resource, each after a text block with its metadata. Refused for files over ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB and for files Bear has not downloaded to this Mac yet.`,
+    inputSchema: z.object({
+      attachmentId: z.string().describe("Attachment ID (from bear_get_note's attachments)")
+    }),
+    handler: ({ attachmentId }) => {
+      const found = getAttachment(attachmentId, getDb());
+      if (!found) throw new Error(`Attachment not found: ${attachmentId}`);
+      const { attachment, data } = found;
+      const encoded = data.toString("base64");
+      return new ToolContent([
+        { type: "text", text: JSON.stringify(attachment, null, 2) },
+        isInlineImage(attachment.mediaType)
+          ? { type: "image", data: encoded, mimeType: attachment.mediaType }
+          : {
+              type: "resource",
+              resource: { uri: `file://${encodeURI(attachment.path ?? attachment.filename)}`, mimeType: attachment.mediaType, blob: encoded }
+            }
+      ]);
+    }
+  }),
+  defineTool({
+    name: "bear_get_links",
+    description: "Get a note's wiki links both ways. `outgoing` lists each [[Title]] or [[Title/Heading]] in the note with its line and how it resolved among live notes: `resolved` (one note), `ambiguous` (several share the title) or `missing`, with the matching note ids. `backlinks` lists the live notes linking to it, with the line and the linking line as context.",
+    inputSchema: z.object({
+      noteId: z.string().describe("Note ID (from search results)")
+    }),
+    handler: ({ noteId }) => {
+      const links = getNoteLinks(noteId, getDb());
+      if (!links) throw new Error(`Note not found: ${noteId}`);
+      return links;
+    }
+  }),
+  defineTool({
+    name: "bear_check_links",
+    description: "Report wiki links in live notes that do not lead to exactly one live note: `missing` (no note has the title), `ambiguous` (several live notes do), `trashed` or `archived` (only notes there do). Grouped per source note with line numbers, most recently modified first. Returns one page: `count` is the number of source notes on it, and `hasMore` says whether more have broken links.",
+    inputSchema: z.object({
+      tag: z.string().optional().describe("Only check notes with this tag (a leading # is optional)"),
+      includeDescendants: includeDescendantsSchema,
+      ...paginationSchema,
+    }),
+    handler: (options) => checkLinks(options, getDb())
+  }),
   defineTool({
     name: "bear_append",
-    description: "Append text to an existing note",
+    description: "Append text to an existing note. With `heading`, the text goes at the end of that section's own text instead, above any subheading; the heading is matched as bear_get_section matches it, and the write fails without sending if it matches no section or several.",
     inputSchema: z.object({
       noteId: z.string().describe("Note ID (from search results)"),
-      text: z.string().describe("Text to append")
+      text: z.string().describe("Text to append"),
+      heading: headingSchema.optional(),
+      ...confirmSchema,
+      ...expectedModifiedAtSchema,
     }),
-    handler: async ({ noteId, text }) => {
-      await appendToNote(noteId, text);
-      return sentToBear(`append text to note ${noteId}`);
+    handler: async ({ noteId, text, heading, confirm, expectedModifiedAt }) => {
+      if (heading === undefined) {
+        const confirmation = await appendToNote(noteId, text, { confirm, expectedModifiedAt }, getDb);
+        return reportWrite(`append text to note ${noteId}`, confirmation);
+      }
+      const confirmation = await addToSection(noteId, heading, text, "append", { confirm, expectedModifiedAt }, getDb);
+      return reportWrite(`append text under "${heading}" in note ${noteId}`, confirmation);
     }
   }),
   defineTool({
     name: "bear_prepend",
-    description: "Prepend text to the beginning of an existing note",
+    description: "Prepend text to the beginning of an existing note. With `heading`, the text goes directly below that heading instead; the heading is matched as bear_get_section matches it, and the write fails without sending if it matches no section or several.",
     inputSchema: z.object({
       noteId: z.string().describe("Note ID (from search results)"),
-      text: z.string().describe("Text to prepend")
+      text: z.string().describe("Text to prepend"),
+      heading: headingSchema.optional(),
+      ...confirmSchema,
+      ...expectedModifiedAtSchema,
     }),
-    handler: async ({ noteId, text }) => {
-      await prependToNote(noteId, text);
-      return sentToBear(`prepend text to note ${noteId}`);
+    handler: async ({ noteId, text, heading, confirm, expectedModifiedAt }) => {
+      if (heading === undefined) {
+        const confirmation = await prependToNote(noteId, text, { confirm, expectedModifiedAt }, getDb);
+        return reportWrite(`prepend text to note ${noteId}`, confirmation);
+      }
+      const confirmation = await addToSection(noteId, heading, text, "prepend", { confirm, expectedModifiedAt }, getDb);
+      return reportWrite(`prepend text under "${heading}" in note ${noteId}`, confirmation);
+    }
+  }),
+  defineTool({
+    name: "bear_replace_section",
+    description: "Replace everything under one heading of a note, subsections included, keeping the heading line, the title and the rest of the note as they are. The heading is matched as bear_get_section matches it; the write fails without sending if it matches no section or several.",
+    inputSchema: z.object({
+      noteId: z.string().describe("Note ID (from search results)"),
+      heading: headingSchema,
+      text: z.string().describe("New Markdown for the section, without its heading line; empty leaves the heading with nothing under it"),
+      ...confirmSchema,
+      ...expectedModifiedAtSchema,
+    }),
+    handler: async ({ noteId, heading, text, confirm, expectedModifiedAt }) => {
+      const what = `replace the section "${heading}" in note ${noteId}`;
+      const result = await replaceSection(noteId, heading, text, { confirm, expectedModifiedAt }, getDb);
+      if (!result.sent) return "Nothing sent: the section already says that.";
+      return reportWrite(what, result.confirmation);
     }
   }),
   defineTool({
     name: "bear_replace_content",
-    description: "Replace the entire content of an existing note. Always structures the note as: title (H1) first, then tags, then content.",
+    description: "Replace the entire content of an existing note. Always structures the note as: title (H1) first, then tags, then content. Pass the modifiedAt bear_get_note returned as expectedModifiedAt to refuse, instead of overwriting, edits made in Bear since.",
     inputSchema: z.object({
       noteId: z.string().describe("Note ID (from search results)"),
       title: noteTitle.describe("Note title (becomes the H1 heading on the first line)"),
       text: z.string().describe("New content (Markdown), placed after title and tags"),
-      tags: z.array(z.string()).optional().describe("Tags to set on the note (placed between title and content; a leading # is optional)")
+      tags: z.array(z.string()).optional().describe("Tags to set on the note (placed between title and content; a leading # is optional)"),
+      ...confirmSchema,
+      ...expectedModifiedAtSchema,
+    }),
+    handler: async ({ noteId, title, text, tags, confirm, expectedModifiedAt }) => {
+      const confirmation = await replaceNoteContent(noteId, title, text, tags, { confirm, expectedModifiedAt }, getDb);
+      return reportWrite(`replace the content of note ${noteId}`, confirmation);
+    }
+  }),
+  defineTool({
+    name: "bear_edit_note",
+    description: "Edit a note in place with find-and-replace edits, instead of resending it with bear_replace_content. Each edit replaces one occurrence of `find` with `replace`; edits apply in order, each to the result of the one before. A `find` must occur exactly once unless `occurrence` picks one. If any edit's text is missing or ambiguous, nothing is sent and the error says which edit and where the text occurs. Matching is exact; `folded` matches case-insensitively and ignores Unicode normalization. Returns a unified diff of what changed.",
+    inputSchema: z.object({
+      noteId: z.string().describe("Note ID (from search results)"),
+      edits: z.array(z.object({
+        find: z.string().min(1, "find must not be empty").describe("Text to find, including enough context to be unique"),
+        replace: z.string().describe("Text to put in its place; empty deletes it"),
+        occurrence: z.number().int().min(1).optional()
+          .describe("Which occurrence to replace, counting from 1, when find occurs more than once"),
+      })).min(1, "Give at least one edit").describe("Edits, applied in order"),
+      folded: z.boolean().optional().describe("Match find case-insensitively and across Unicode normalization forms"),
+      ...confirmSchema,
+      ...expectedModifiedAtSchema,
     }),
-    handler: async ({ noteId, title, text, tags }) => {
-      await replaceNoteContent(noteId, title, text, tags);
-      return sentToBear(`replace the content of note ${noteId}`);
+    handler: async ({ noteId, edits, folded, confirm, expectedModifiedAt }) => {
+      const result = await editNote(noteId, edits, { folded }, { confirm, expectedModifiedAt }, getDb);
+      if (!result.sent) return "Nothing sent: the edits leave the note unchanged.";
+      return `${reportWrite(`edit note ${noteId}`, result.confirmation)}\n\n${result.diff}`;
     }
   }),
+  defineTool({
+    name: "bear_bulk_replace",
+    description: "Find and replace text across many notes. Without `token` this is a dry run that sends nothing: it returns one page of the live notes that would change, each with its number of replacements and a unified diff, plus `totalNotes`, `totalReplacements` and a `token`. To apply, call again with the same arguments and that `token`; if any note in scope changed since the preview, nothing is sent and a new preview is needed. Notes are then written one at a time, each refused if edited during the run, and the result lists every note's outcome. Scope with term, tag and dates as in bear_search; matching is exact unless `folded`.",
+    inputSchema: z.object({
+      find: z.string().min(1, "find must not be empty").describe("Text to replace, every occurrence in every note in scope"),
+      replace: z.string().describe("Text to put in its place"),
+      folded: z.boolean().optional().describe("Match find case-insensitively and across Unicode normalization forms"),
+      term: z.string().optional().describe("Only notes whose title or body contains this"),
+      tag: z.string().optional().describe("Only notes with this tag (a leading # is optional)"),
+      includeDescendants: includeDescendantsSchema,
+      ...dateRangeSchema,
+      ...paginationSchema,
+      token: z.string().optional().describe("The token from a dry run of exactly these arguments, to apply it"),
+      stopOnFailure: z.boolean().optional()
+        .describe("When applying, stop at the first note that fails or, with confirm, is not confirmed; later notes are reported as skipped"),
+      ...confirmSchema,
+    }),
+    handler: async ({ find, replace, token, stopOnFailure, confirm, ...options }) =>
+      token === undefined
+        ? previewBulkReplace(find, replace, options, getDb())
+        : applyBulkReplace(find, replace, token, { ...options, stopOnFailure }, { confirm }, getDb)
+  }),
   defineTool({
     name: "bear_list_tags",
-    description: "List all tags in Bear with note counts",
-    inputSchema: z.object({}),
-    handler: () => getAllTags(getDb())
+    description: "List all tags in Bear with note counts. With `tree`, nested tags (work/clients/acme) come as a tree whose nodes carry both a direct `noteCount` and a rolled-up `totalNoteCount` that counts each note once.",
+    inputSchema: z.object({
+      tree: z.boolean().optional().describe("Return nested tags as a tree rather than a flat list"),
+    }),
+    handler: ({ tree }) => (tree ? getTagTree(getDb()) : getAllTags(getDb()))
   }),
   defineTool({
     name: "bear_list_by_tag",
     description: "List notes with a specific tag. Returns one page: `count` is the size of that page, and `hasMore` says whether further notes carry the tag.",
     inputSchema: z.object({
       tag: z.string().trim().min(1, "Tag must not be blank").describe("Tag to filter by (a leading # is optional)"),
+      includeDescendants: includeDescendantsSchema,
+      ...dateRangeSchema,
+      ...sortSchema,
       ...paginationSchema,
     }),
-    handler: ({ tag, limit, offset }) => ({ tag, ...listNotesByTag(tag, { limit, offset }, getDb()) })
+    handler: ({ tag, ...options }) => ({ tag, ...listNotesByTag(tag, options, getDb()) })
+  }),
+  defineTool({
+    name: "bear_list_untagged",
+    description: "List notes that carry no tag, like Bear's Untagged section. Returns one page: `count` is the size of that page, and `hasMore` says whether further untagged notes exist.",
+    inputSchema: z.object({
+      term: z.string().optional().describe("Only untagged notes whose title or body contains this text. Blank means no text filter."),
+      ...dateRangeSchema,
+      ...sortSchema,
+      ...paginationSchema,
+    }),
+    handler: (options) => listUntaggedNotes(options, getDb())
   }),
   defineTool({
     name: "bear_rename_tag",
     description: "Rename an existing tag in Bear",
     inputSchema: z.object({
       name: z.string().describe("Current tag name (without #)"),
-      newName: z.string().describe("New tag name (without #)")
+      newName: z.string().describe("New tag name (without #)"),
+      ...confirmSchema,
     }),
-    handler: async ({ name, newName }) => {
-      await renameTag(name, newName);
-      return sentToBear(`rename tag '${name}' to '${newName}'`);
+    handler: async ({ name, newName, confirm }) => {
+      const confirmation = await renameTag(name, newName, { confirm }, getDb);
+      return reportWrite(`rename tag '${name}' to '${newName}'`, confirmation);
     }
   }),
   defineTool({
     name: "bear_delete_tag",
     description: "Delete an existing tag from all notes in Bear",
     inputSchema: z.object({
-      name: z.string().describe("Tag name to delete (without #)")
+      name: z.string().describe("Tag name to delete (without #)"),
+      ...confirmSchema,
+    }),
+    handler: async ({ name, confirm }) => {
+      const confirmation = await deleteTag(name, { confirm }, getDb);
+      return reportWrite(`delete tag '${name}'`, confirmation);
+    }
+  }),
+  defineTool({
+    name: "bear_tag_note",
+    description: `Add tags to one note, leaving the rest of its text alone: Bear places the tags itself. Tags the note already has are not sent again. Waits up to ${DEFAULT_CONFIRM_TIMEOUT_MS / 1000}s for the tags to show up, and returns the note's tags before and after as Bear's database has them.`,
+    inputSchema: z.object({
+      noteId: z.string().describe("Note ID (from search results)"),
+      tags: z.array(z.string()).min(1, "Give at least one tag").describe("Tags to add (a leading # is optional; no commas)"),
     }),
-    handler: async ({ name }) => {
-      await deleteTag(name);
-      return sentToBear(`delete tag '${name}'`);
+    handler: async ({ noteId, tags }) => {
+      const result = await tagNote(noteId, tags, { confirm: true }, getDb);
+      const report = result.sent
+        ? reportWrite(`tag note ${noteId}`, result.confirmation)
+        : "Nothing sent: the note already has those tags.";
+      return { noteId, result: report, tagsBefore: result.tagsBefore, tagsAfter: result.tagsAfter };
+    }
+  }),
+  defineTool({
+    name: "bear_untag_note",
+    description: `Remove tags from one note by deleting them from its text: \`#tag\`, or \`#multi word#\` for a name with spaces, in any case. Nested tags below a removed one (\`#work/clients\` under \`work\`) stay, as does fenced code; a line left holding nothing else is dropped. Waits up to ${DEFAULT_CONFIRM_TIMEOUT_MS / 1000}s for the change to show up, and returns the note's tags before and after as Bear's database has them.`,
+    inputSchema: z.object({
+      noteId: z.string().describe("Note ID (from search results)"),
+      tags: z.array(z.string()).min(1, "Give at least one tag").describe("Tags to remove (a leading # is optional)"),
+      ...expectedModifiedAtSchema,
+    }),
+    handler: async ({ noteId, tags, expectedModifiedAt }) => {
+      const result = await untagNote(noteId, tags, { confirm: true, expectedModifiedAt }, getDb);
+      const report = result.sent
+        ? reportWrite(`untag note ${noteId}`, result.confirmation)
+        : "Nothing sent: none of those tags is in the note's text.";
+      return { noteId, result: report, tagsBefore: result.tagsBefore, tagsAfter: result.tagsAfter };
     }
   }),
   defineTool({
     name: "bear_trash_note",
     description: "Move a note to trash",
     inputSchema: z.object({
-      noteId: z.string().describe("Note ID")
+      noteId: z.string().describe("Note ID"),
+      ...confirmSchema,
     }),
-    handler: async ({ noteId }) => {
-      await trashNote(noteId);
-      return sentToBear(`move note ${noteId} to trash`);
+    handler: async ({ noteId, confirm }) => {
+      const confirmation = await trashNote(noteId, { confirm }, getDb);
+      return reportWrite(`move note ${noteId} to trash`, confirmation);
     }
   }),
   defineTool({
     name: "bear_archive_note",
     description: "Archive a note (moves it out of main view but keeps it accessible). Bear's URL scheme has no un-archive action, so this cannot be undone from here - only in Bear itself.",
     inputSchema: z.object({
-      noteId: z.string().describe("Note ID")
+      noteId: z.string().describe("Note ID"),
+      ...confirmSchema,
     }),
-    handler: async ({ noteId }) => {
-      await archiveNote(noteId);
-      return sentToBear(`archive note ${noteId}`);
+    handler: async ({ noteId, confirm }) => {
+      const confirmation = await archiveNote(noteId, { confirm }, getDb);
+      return reportWrite(`archive note ${noteId}`, confirmation);
     }
   }),
   defineTool({
     name: "bear_list_archived",
     description: "List archived notes. Returns one page: `count` is the size of that page, and `hasMore` says whether more archived notes exist.",
-    inputSchema: z.object({ ...paginationSchema }),
-    handler: ({ limit, offset }) => listArchivedNotes({ limit, offset }, getDb())
+    inputSchema: z.object({ ...dateRangeSchema, ...sortSchema, ...paginationSchema }),
+    handler: (options) => listArchivedNotes(options, getDb())
+  }),
+  defineTool({
+    name: "bear_list_trashed",
+    description: "List notes in Bear's trash, for finding a note that was trashed by mistake. Each carries `trashedAt` when Bear recorded the time. Returns one page: `count` is the size of that page, and `hasMore` says whether more trashed notes exist.",
+    inputSchema: z.object({
+      term: z.string().optional().describe("Only trashed notes whose title or body contains this text"),
+      title: z.string().optional().describe("Only trashed notes whose title contains this text"),
+      ...dateRangeSchema,
+      ...sortSchema,
+      ...paginationSchema,
+    }),
+    handler: (options) => listTrashedNotes(options, getDb())
+  }),
+  defineTool({
+    name: "bear_list_todos",
+    description: "List checklist items (`- [ ]` open, `- [x]` done) across live notes, each with its note id, title and modifiedAt (`noteModifiedAt`), 1-based line number, state and the heading it sits under. Most recently modified notes first, items in note order. Returns one page: `count` is the size of that page, and `hasMore` says whether more items matched.",
+    inputSchema: z.object({
+      state: z.enum(["open", "done", "all"]).optional().describe('Which items: "open" (default), "done" or "all"'),
+      tag: z.string().optional().describe("Only items in notes with this tag (a leading # is optional)"),
+      includeDescendants: includeDescendantsSchema,
+      term: z.string().optional().describe("Only items whose text contains this (case-insensitive)"),
+      ...paginationSchema,
+    }),
+    handler: (options) => listTodos(options, getDb())
+  }),
+  defineTool({
+    name: "bear_set_todo",
+    description: "Check or uncheck one checklist item in a note, changing only its checkbox. The item is located by the line and text bear_list_todos returned; if that line no longer holds that text, the note changed and nothing is sent. Pass the item's noteModifiedAt as expectedModifiedAt to also refuse any other edit made to the note since it was listed.",
+    inputSchema: z.object({
+      noteId: z.string().describe("Note ID (from bear_list_todos)"),
+      line: z.number().int().min(1).describe("The item's line number (from bear_list_todos)"),
+      text: z.string().describe("The item's text (from bear_list_todos), checked against the line before changing it"),
+      done: z.boolean().describe("true to check the item, false to uncheck it"),
+      ...confirmSchema,
+      expectedModifiedAt: expectedModifiedAtSchema.expectedModifiedAt
+        .describe("The item's noteModifiedAt from bear_list_todos (or the note's modifiedAt from bear_get_note). If the note has changed since, the write is refused with a conflict error and nothing is sent"),
+    }),
+    handler: async ({ noteId, line, text, done, confirm, expectedModifiedAt }) => {
+      const what = `${done ? "check" : "uncheck"} "${text.trim()}" on line ${line} of note ${noteId}`;
+      const result = await setTodo(noteId, { line, text }, done, { confirm, expectedModifiedAt }, getDb);
+      if (!result.sent) return `Nothing sent: the item is already ${done ? "checked" : "unchecked"}.`;
+      return reportWrite(what, result.confirmation);
+    }
   })
 ];
 
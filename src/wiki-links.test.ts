@@ -0,0 +1,49 @@
+import { test, expect, describe } from "bun:test";
+import { parseWikiLinks, resolveWikiLink, titleKey } from "./wiki-links";
+
+describe("parseWikiLinks", () => {
+  test("finds every link with its 1-based line, trimmed", () => {
+    const body = "# Hub\nSee [[Roadmap]] and [[ Q3 plan/Risks ]].\n\nAlso [[Möte]]";
+    expect(parseWikiLinks(body)).toEqual([
+      { line: 2, target: "Roadmap" },
+      { line: 2, target: "Q3 plan/Risks" },
+      { line: 4, target: "Möte" },
+    ]);
+  });
+
+  test("skips links in fenced and inline code, and empty or unclosed brackets", () => {
+    const body = "# Doc\n```\n[[Quoted]]\n```\n`[[Inline]]` but [[Real]]\n[[ ]] [[Open\n[[Nested [[Inner]]";
+    expect(parseWikiLinks(body).map(link => link.target)).toEqual(["Real", "Inner"]);
+  });
+});
+
+describe("resolveWikiLink", () => {
+  const titles = new Map([
+    [titleKey("Roadmap"), ["R"]],
+    [titleKey("Q3/Q4 planning"), ["Q"]],
+    [titleKey("Möte"), ["M1", "M2"]],
+  ]);
+  const lookup = (key: string) => titles.get(key) ?? [];
+
+  test("matches a title with search's folding", () => {
+    expect(resolveWikiLink("ROADMAP", lookup)).toEqual({ title: "ROADMAP", matches: ["R"] });
+    expect(resolveWikiLink("möte", lookup).matches).toEqual(["M1", "M2"]);
+  });
+
+  test("reads text after a slash as a heading when the whole target names no note", () => {
+    expect(resolveWikiLink("Roadmap/Risks and issues", lookup)).toEqual({
+      title: "Roadmap",
+      heading: "Risks and issues",
+      matches: ["R"],
+    });
+  });
+
+  test("a slash that belongs to the title keeps it", () => {
+    expect(resolveWikiLink("Q3/Q4 planning", lookup).matches).toEqual(["Q"]);
+    expect(resolveWikiLink("Q3/Q4 planning/Budget", lookup)).toMatchObject({ title: "Q3/Q4 planning", heading: "Budget" });
+  });
+
+  test("a link to no note reads as the whole target", () => {
+    expect(resolveWikiLink("Gone/Away", lookup)).toEqual({ title: "Gone/Away", matches: [] });
+  });
+});
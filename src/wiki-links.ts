@@ -0,0 +1,65 @@
+// Bear's wiki links: `[[Note Title]]`, or `[[Note Title/Heading]]` to point
+// at a heading inside it. Pure functions, no SQL: a body in, the links out,
+// and a resolver that judges one link against a title lookup the caller
+// supplies.
+//
+// A link names its note by title, and titles are matched with the same
+// folding as search (text-match.ts), so `[[möte]]` reaches a note titled
+// "Möte". Lines are numbered and fenced code skipped as note-lines.ts does it;
+// a link inside inline code is quoted, not followed, and is left out too.
+
+import { proseLines } from "./note-lines.js";
+import { foldForMatch } from "./text-match.js";
+
+export interface WikiLink {
+  line: number;
+  // Everything between the brackets, as written.
+  target: string;
+}
+
+// One way of reading a link's target as a title and an optional heading.
+export interface LinkReading {
+  title: string;
+  heading?: string;
+}
+
+const LINK = /\[\[([^[\]\n]+?)\]\]/g;
+const INLINE_CODE = /`[^`\n]*`/g;
+
+export const parseWikiLinks = (body: string): WikiLink[] =>
+  proseLines(body).flatMap(line =>
+    [...line.text.replace(INLINE_CODE, code => " ".repeat(code.length)).matchAll(LINK)]
+      .map(match => match[1].trim())
+      .filter(Boolean)
+      .map(target => ({ line: line.number, target }))
+  );
+
+// The key a title is looked up by.
+export const titleKey = (title: string): string => foldForMatch(title.trim());
+
+// A `/` can separate the heading or belong to the title ("Q3/Q4 planning"),
+// and the link alone cannot say which. So the whole target is tried as a
+// title first, then each split from the left, and the first reading that
+// names an existing note wins.
+const readings = (target: string): LinkReading[] => {
+  const result: LinkReading[] = [{ title: target }];
+  for (let slash = target.indexOf("/"); slash !== -1; slash = target.indexOf("/", slash + 1)) {
+    const title = target.slice(0, slash).trim();
+    const heading = target.slice(slash + 1).trim();
+    if (title && heading) result.push({ title, heading });
+  }
+  return result;
+};
+
+// Resolves a target against `lookup`, which returns the notes holding a
+// title key. A link that names no note reads as the whole target.
+export const resolveWikiLink = <T>(
+  target: string,
+  lookup: (key: string) => T[]
+): LinkReading & { matches: T[] } => {
+  for (const reading of readings(target)) {
+    const matches = lookup(titleKey(reading.title));
+    if (matches.length > 0) return { ...reading, matches };
+  }
+  return { title: target, matches: [] };
+};
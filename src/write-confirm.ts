@@ -0,0 +1,256 @@
+import type { Database } from "bun:sqlite";
+import { tagJoin, joinTagsFromNote } from "./bear-schema.js";
+import { sameTag } from "./note-format.js";
+import { equalsFolded } from "./text-match.js";
+import { liveNotesFilter, addressableFilter, CORE_DATA_EPOCH_OFFSET } from "./notes-query.js";
+
+// Turns a fire-and-forget bear:// write into an observed one. Bear never
+// answers, but it does write to the database this server already reads, so a
+// write can be confirmed the way docs/TEST-PROTOCOL.md does it by hand: take a
+// baseline before sending, then poll until the expected change shows up or
+// the wait runs out.
+//
+// Each expect* function reads its baseline when called, so it must be called
+// *before* the URL is sent. It returns the check the poll runs afterwards.
+
+export type ConfirmStatus = "confirmed" | "not-observed" | "contradicted";
+
+export interface WriteConfirmation {
+  status: ConfirmStatus;
+  // How long the poll ran before it settled or gave up.
+  waitedMs: number;
+  // What the database showed instead. Only set when contradicted.
+  reason?: string;
+  // The note the write was observed on. Only set for a create, where the id
+  // is not known until Bear assigns one.
+  noteId?: string;
+}
+
+export type Observation =
+  | { state: "pending" }
+  | { state: "confirmed"; noteId?: string }
+  | { state: "contradicted"; reason: string };
+
+// `final` is true on the last look, once the wait has run out. A check uses
+// it to tell "nothing changed" (not observed) from "something changed, but
+// not into what was sent" (contradicted), which mid-poll could still be an
+// intermediate state.
+export type WriteCheck = (final: boolean) => Observation;
+
+export interface PollOptions {
+  timeoutMs: number;
+  intervalMs: number;
+}
+
+const PENDING: Observation = { state: "pending" };
+const CONFIRMED: Observation = { state: "confirmed" };
+
+const contradicted = (reason: string): Observation => ({ state: "contradicted", reason });
+
+interface NoteState {
+  text: string;
+  trashed: boolean;
+  archived: boolean;
+}
+
+// Deliberately its own query rather than getNoteContent: the confirmation
+// needs the raw body and flags, not a rendered Note, and should not depend on
+// the read path it is partly there to double-check.
+const readNoteState = (db: Database, noteId: string): NoteState | null => {
+  const row = db
+    .prepare("SELECT ZTEXT as text, ZTRASHED as trashed, ZARCHIVED as archived FROM ZSFNOTE WHERE ZUNIQUEIDENTIFIER = ?")
+    .get(noteId) as { text: string | null; trashed: number | null; archived: number | null } | undefined;
+  if (!row) return null;
+  return { text: row.text ?? "", trashed: row.trashed === 1, archived: row.archived === 1 };
+};
+
+const missingNote = (noteId: string): Observation => contradicted(`no note with id ${noteId} exists`);
+
+// Shared shape of every single-note check: a note that is missing before the
+// send is contradicted up front, since no amount of waiting brings it back.
+const expectNote = (
+  db: Database,
+  noteId: string,
+  judge: (baseline: NoteState, current: NoteState, final: boolean) => Observation
+): WriteCheck => {
+  const baseline = readNoteState(db, noteId);
+  return final => {
+    if (!baseline) return missingNote(noteId);
+    const current = readNoteState(db, noteId);
+    if (!current) return contradicted(`note ${noteId} disappeared`);
+    return judge(baseline, current, final);
+  };
+};
+
+// Bear decides where exactly added text lands (a prepend goes below the
+// title, and either may gain a separating newline), so the check asks only
+// that the body changed and now contains what was sent.
+const expectTextAdded = (db: Database, noteId: string, text: string): WriteCheck => {
+  const sent = text.trim();
+  return expectNote(db, noteId, (baseline, current, final) => {
+    if (current.text === baseline.text) return PENDING;
+    if (current.text.includes(sent)) return CONFIRMED;
+    return final ? contradicted("the note changed, but does not contain the sent text") : PENDING;
+  });
+};
+
+export const expectAppended = expectTextAdded;
+export const expectPrepended = expectTextAdded;
+
+// Trailing whitespace is the one difference tolerated: Bear may or may not
+// keep a final newline, and that is not a failed replace.
+export const expectReplaced = (db: Database, noteId: string, markdown: string): WriteCheck => {
+  const sent = markdown.trimEnd();
+  return expectNote(db, noteId, (baseline, current, final) => {
+    if (current.text.trimEnd() === sent) return CONFIRMED;
+    if (current.text === baseline.text) return PENDING;
+    return final ? contradicted("the note changed, but not to the sent text") : PENDING;
+  });
+};
+
+export const expectTrashed = (db: Database, noteId: string): WriteCheck =>
+  expectNote(db, noteId, (_baseline, current) => (current.trashed ? CONFIRMED : PENDING));
+
+export const expectArchived = (db: Database, noteId: string): WriteCheck =>
+  expectNote(db, noteId, (_baseline, current, final) => {
+    if (current.archived) return CONFIRMED;
+    // Bear does not archive a trashed note; the flag would never move.
+    if (final && current.trashed) return contradicted("the note is in the trash, not the archive");
+    return PENDING;
+  });
+
+// The stored tag names on one note, whatever its state.
+const noteTagNames = (db: Database, noteId: string): string[] => {
+  const join = tagJoin(db);
+  const rows = db
+    .prepare(`
+      SELECT t.ZTITLE as name
+      FROM ZSFNOTE n
+      ${joinTagsFromNote(join, "n")}
+      JOIN ZSFNOTETAG t ON nt.${join.tagColumn} = t.Z_PK
+      WHERE n.ZUNIQUEIDENTIFIER = ?
+    `)
+    .all(noteId) as { name: string | null }[];
+  return rows.flatMap(row => (row.name == null ? [] : [row.name]));
+};
+
+// Confirmed once the note carries every tag sent, in any spelling: Bear
+// decides where in the text the tags go.
+export const expectTagsAdded = (db: Database, noteId: string, tags: string[]): WriteCheck =>
+  expectNote(db, noteId, () => {
+    const names = noteTagNames(db, noteId);
+    return tags.every(tag => names.some(name => sameTag(name, tag))) ? CONFIRMED : PENDING;
+  });
+
+// Live notes carrying a tag, keyed by note id, each with the stored spellings
+// of the tag on it. Live only, matching what bear_list_tags reports: a
+// trashed note's tags are not something a caller can observe through this
+// server anyway.
+const tagCarriers = (db: Database, tagName: string): Map<string, string[]> => {
+  const join = tagJoin(db);
+  const rows = db
+    .prepare(`
+      SELECT n.ZUNIQUEIDENTIFIER as noteId, t.ZTITLE as name
+      FROM ZSFNOTE n
+      ${joinTagsFromNote(join, "n")}
+      JOIN ZSFNOTETAG t ON nt.${join.tagColumn} = t.Z_PK
+      WHERE ${liveNotesFilter("n")}
+    `)
+    .all() as { noteId: string | null; name: string | null }[];
+
+  const carriers = new Map<string, string[]>();
+  for (const row of rows) {
+    if (row.noteId == null || row.name == null || !sameTag(row.name, tagName)) continue;
+    carriers.set(row.noteId, [...(carriers.get(row.noteId) ?? []), row.name]);
+  }
+  return carriers;
+};
+
+// Confirmed once every note that carried the old name carries the new one,
+// spelled exactly as sent, and no spelling of the old name is left. Exact
+// spelling is what lets a case-only rename ("Work" -> "work") be observed at
+// all, since the two names are the same tag to sameTag.
+export const expectTagRenamed = (db: Database, name: string, newName: string): WriteCheck => {
+  const baseline = [...tagCarriers(db, name).keys()];
+  return () => {
+    if (baseline.length === 0) return contradicted(`no live note carries the tag '${name}'`);
+    const oldCarriers = tagCarriers(db, name);
+    const newCarriers = tagCarriers(db, newName);
+    const renamed = baseline.every(noteId => newCarriers.get(noteId)?.includes(newName));
+    const leftover = [...oldCarriers.values()].some(names => names.some(stored => stored !== newName));
+    return renamed && !leftover ? CONFIRMED : PENDING;
+  };
+};
+
+// Bear can keep the ZSFNOTETAG row after the last note using it is gone
+// (docs/TEST-PROTOCOL.md, Phase 7), so deletion is judged by the notes, not
+// by the tag table.
+export const expectTagDeleted = (db: Database, name: string): WriteCheck => {
+  const baseline = tagCarriers(db, name).size;
+  return () => {
+    if (baseline === 0) return contradicted(`no live note carries the tag '${name}'`);
+    return tagCarriers(db, name).size === 0 ? CONFIRMED : PENDING;
+  };
+};
+
+// A create has no id to watch, so the new row is recognized by what is known
+// before sending: its title, and that it did not exist yet. Notes that already
+// carry the title are excluded by id rather than by time alone, so a clock
+// that disagrees by a second cannot turn an old note into the "new" one.
+// The creation-time floor keeps each poll to the few notes created since the
+// send instead of the whole library. A correlation marker in the body would
+// be more precise, but would leave a token in the user's note for good.
+const CREATION_SLACK_SECONDS = 2;
+
+export const expectCreated = (db: Database, title: string): WriteCheck => {
+  const rowsSince = (floor: number | null): { id: string; title: string | null }[] =>
+    db
+      .prepare(
+        `SELECT ZUNIQUEIDENTIFIER as id, ZTITLE as title FROM ZSFNOTE
+         WHERE ${addressableFilter()} AND (? IS NULL OR ZCREATIONDATE >= ?)`
+      )
+      .all(floor, floor) as { id: string; title: string | null }[];
+
+  const withTitle = (rows: { id: string; title: string | null }[]) =>
+    rows.filter(row => equalsFolded(row.title ?? "", title));
+
+  const existing = new Set(withTitle(rowsSince(null)).map(row => row.id));
+  const floor = Date.now() / 1000 - CORE_DATA_EPOCH_OFFSET - CREATION_SLACK_SECONDS;
+
+  return () => {
+    const created = withTitle(rowsSince(floor)).filter(row => !existing.has(row.id));
+    if (created.length === 1) return { state: "confirmed", noteId: created[0].id };
+    if (created.length > 1) {
+      return contradicted(
+        `${created.length} new notes with this title appeared (${created.map(row => row.id).join(", ")}), ` +
+          "so which one this write created is ambiguous"
+      );
+    }
+    return PENDING;
+  };
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs a check until it settles or the timeout passes, then takes one final
+// look. The first look happens immediately: a fast runner (or a test) may
+// already have applied the change by the time the send returns.
+export const pollForWrite = async (check: WriteCheck, options: PollOptions): Promise<WriteConfirmation> => {
+  const started = Date.now();
+  for (;;) {
+    const waitedMs = Date.now() - started;
+    const final = waitedMs >= options.timeoutMs;
+    const observation = check(final);
+
+    if (observation.state === "confirmed") {
+      const { noteId } = observation;
+      return noteId ? { status: "confirmed", waitedMs, noteId } : { status: "confirmed", waitedMs };
+    }
+    if (observation.state === "contradicted") {
+      return { status: "contradicted", waitedMs, reason: observation.reason };
+    }
+    if (final) return { status: "not-observed", waitedMs };
+
+    await sleep(Math.min(options.intervalMs, options.timeoutMs - waitedMs));
+  }
+};